@@ -1,14 +1,176 @@
 import './App.css'
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useEffect, useMemo } from 'react'
 import HyperWizard from './components/HyperWizard'
 import MainMenu from './components/MainMenu'
+import LevelEditor from './components/LevelEditor'
+import LinkErrorScreen from './components/LinkErrorScreen'
+import type { LevelDefinition } from './engine/level'
+import type { Replay } from './engine/replay'
+import { randomSeedString } from './engine/rng'
+import { baselineLevel } from './levels'
+import { CAMPAIGN } from './levels/campaign'
+import { createEditorSession } from './levels/editing'
+import { runHash, runSeedFromHash, runStageLevel } from './levels/hyperspaceRun'
+import { LevelFileError } from './levels/levelFile'
+import { decodeLevelLink, isLevelLink } from './levels/levelLink'
+import { loadReplay } from './levels/replayFile'
+import { isLevelCompleted, isLevelUnlocked, loadProgress, markLevelCompleted, nextPlayableLevel } from './levels/progress'
+
+type Screen = 'menu' | 'campaign' | 'editor' | 'playtest' | 'run' | 'shared' | 'linkError' | 'replay' | 'replayError'
+
+type HyperspaceRun = { seed: string; stage: number }
+
+type LocationLink =
+  | { kind: 'run'; seed: string }
+  | { kind: 'level'; level: LevelDefinition }
+  | { kind: 'invalid'; issues: string[] }
+
+// #run=<seed> and #level=<data> links open straight into the game
+function readLocationLink(): LocationLink | null {
+  const hash = window.location.hash
+  const seed = runSeedFromHash(hash)
+  if (seed) return { kind: 'run', seed }
+  if (!isLevelLink(hash)) return null
+  try {
+    return { kind: 'level', level: decodeLevelLink(hash) }
+  } catch (err) {
+    return { kind: 'invalid', issues: err instanceof LevelFileError ? err.issues : [String(err)] }
+  }
+}
+
+function screenForLink(link: LocationLink | null): Screen {
+  if (!link) return 'menu'
+  if (link.kind === 'run') return 'run'
+  return link.kind === 'level' ? 'shared' : 'linkError'
+}
+
+function setLocationHash(hash: string) {
+  window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}${hash}`)
+}
 
 export default function App() {
-  const [screen, setScreen] = useState<'menu' | 'level1'>('menu')
+  const [link, setLink] = useState(readLocationLink)
+  const [run, setRun] = useState<HyperspaceRun | null>(() => (link && link.kind === 'run' ? { seed: link.seed, stage: 0 } : null))
+  const [screen, setScreen] = useState<Screen>(() => screenForLink(link))
+  const [progress, setProgress] = useState(loadProgress)
+  const [levelIndex, setLevelIndex] = useState(0)
+  // Editor state survives play-test round trips
+  const [editorSession] = useState(() => createEditorSession(baselineLevel))
+  const [playtestLevel, setPlaytestLevel] = useState<LevelDefinition | null>(null)
+  const [replay, setReplay] = useState<Replay | null>(null)
+  const [replayIssues, setReplayIssues] = useState<string[]>([])
+
+  const playLevel = useCallback((index: number) => {
+    setLevelIndex(index)
+    setScreen('campaign')
+  }, [])
+  const startGame = useCallback(() => playLevel(nextPlayableLevel(progress)), [playLevel, progress])
+  const openEditor = useCallback(() => setScreen('editor'), [])
+  const backToMenu = useCallback(() => {
+    setLocationHash('')
+    setScreen('menu')
+  }, [])
+  const startPlaytest = useCallback((level: LevelDefinition) => {
+    setPlaytestLevel(level)
+    setScreen('playtest')
+  }, [])
+  const completeLevel = useCallback(() => {
+    setProgress((p) => markLevelCompleted(p, CAMPAIGN[levelIndex].id))
+  }, [levelIndex])
+  const continueCampaign = useCallback(() => {
+    if (levelIndex + 1 < CAMPAIGN.length) playLevel(levelIndex + 1)
+    else setScreen('menu')
+  }, [levelIndex, playLevel])
+
+  const startRun = useCallback(() => {
+    const seed = randomSeedString()
+    setLocationHash(runHash(seed))
+    setRun({ seed, stage: 0 })
+    setScreen('run')
+  }, [])
+  const openReplay = useCallback(async (file: File) => {
+    try {
+      setReplay(loadReplay(await file.text()))
+      setScreen('replay')
+    } catch (err) {
+      setReplayIssues(err instanceof LevelFileError ? err.issues : [String(err)])
+      setScreen('replayError')
+    }
+  }, [])
+
+  const nextRunStage = useCallback(() => setRun((r) => (r ? { ...r, stage: r.stage + 1 } : r)), [])
+  const runLevel = useMemo(() => (run ? runStageLevel(run.seed, run.stage) : null), [run])
 
-  const startGame = useCallback(() => setScreen('level1'), [])
-  const backToMenu = useCallback(() => setScreen('menu'), [])
+  // A link pasted into the address bar of an open tab
+  useEffect(() => {
+    const onHashChange = () => {
+      const next = readLocationLink()
+      if (!next) return
+      setLink(next)
+      if (next.kind === 'run') setRun({ seed: next.seed, stage: 0 })
+      setScreen(screenForLink(next))
+    }
+    window.addEventListener('hashchange', onHashChange)
+    return () => window.removeEventListener('hashchange', onHashChange)
+  }, [])
 
-  if (screen === 'menu') return <MainMenu onStart={startGame} />
-  return <HyperWizard key="level1" onExitToMenu={backToMenu} />
+  if (screen === 'menu') {
+    const levels = CAMPAIGN.map((entry, i) => ({
+      name: entry.definition.name,
+      unlocked: isLevelUnlocked(progress, i),
+      completed: isLevelCompleted(progress, i),
+    }))
+    return <MainMenu onStart={startGame} onSelectLevel={playLevel} levels={levels} onOpenEditor={openEditor} onStartRun={startRun} onOpenReplay={openReplay} />
+  }
+  if (screen === 'editor') {
+    return <LevelEditor session={editorSession} onPlaytest={startPlaytest} onExitToMenu={backToMenu} />
+  }
+  if (screen === 'playtest' && playtestLevel) {
+    return <HyperWizard key="playtest" level={playtestLevel} onExitToMenu={openEditor} />
+  }
+  if (screen === 'shared' && link && link.kind === 'level') {
+    return <HyperWizard key="shared" level={link.level} label={`Shared level: ${link.level.name}`} onExitToMenu={backToMenu} />
+  }
+  if (screen === 'linkError' && link && link.kind === 'invalid') {
+    return <LinkErrorScreen issues={link.issues} onExitToMenu={backToMenu} />
+  }
+  if (screen === 'replay' && replay) {
+    return <HyperWizard key="replay" level={replay.level} replay={replay} label={`Replay: ${replay.level.name}`} onExitToMenu={backToMenu} />
+  }
+  if (screen === 'replayError') {
+    return (
+      <LinkErrorScreen
+        issues={replayIssues}
+        onExitToMenu={backToMenu}
+        title="This replay can't be played"
+        hint="The file may be damaged or from a different version of the game."
+      />
+    )
+  }
+  if (screen === 'run' && run && runLevel) {
+    return (
+      <HyperWizard
+        key={`${run.seed}/${run.stage}`}
+        level={runLevel}
+        label={`Hyperspace Run · seed ${run.seed} · stage ${run.stage + 1}`}
+        onExitToMenu={backToMenu}
+        onContinue={nextRunStage}
+        continueHint="Press ENTER to warp to the next stage"
+      />
+    )
+  }
+  const entry = CAMPAIGN[levelIndex]
+  const isLast = levelIndex + 1 >= CAMPAIGN.length
+  return (
+    <HyperWizard
+      key={entry.id}
+      level={entry.definition}
+      ghostId={entry.id}
+      label={`Level ${levelIndex + 1}/${CAMPAIGN.length}: ${entry.definition.name}`}
+      onExitToMenu={backToMenu}
+      onWin={completeLevel}
+      onContinue={continueCampaign}
+      continueHint={isLast ? 'Campaign complete! Press ENTER for the Menu' : 'Press ENTER for the next level'}
+    />
+  )
 }
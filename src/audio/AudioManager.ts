@@ -12,7 +12,7 @@
 //   - envelope times (attack/hold/release) for pad notes
 // - Progression (mood): edit the 'progression' array in startMusic()
 
-export type SfxKind = 'jump' | 'runStep' | 'collect' | 'stomp' | 'death' | 'win' | 'flight'
+export type SfxKind = 'jump' | 'runStep' | 'collect' | 'stomp' | 'death' | 'win' | 'flight' | 'checkpoint' | 'cast' | 'zap' | 'wallJump' | 'dash' | 'hurt' | 'roar'
 
 type AudioNodes = {
   ctx: AudioContext
@@ -263,6 +263,30 @@ export class AudioManager {
       case 'flight':
         this.upSweep(160, 520, 280)
         break
+      case 'checkpoint':
+        this.arpeggio([523, 659, 784, 1046], 60, 0.3)
+        break
+      case 'cast':
+        this.upSweep(600, 1400, 90)
+        break
+      case 'zap':
+        this.beep(90, 'square', 140, 0.5)
+        break
+      case 'dash':
+        this.downSweep(1200, 500, 110)
+        break
+      case 'wallJump':
+        this.tap(120, 30, 0.4)
+        this.upSweep(380, 900, 120)
+        break
+      case 'hurt':
+        this.beep(140, 'sawtooth', 80, 0.5)
+        this.downSweep(520, 260, 140)
+        break
+      case 'roar':
+        this.beep(70, 'sawtooth', 420, 0.6)
+        this.downSweep(300, 60, 420)
+        break
       default:
         break
     }
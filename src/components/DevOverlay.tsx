@@ -1,16 +1,18 @@
-import { useEffect, useRef, useState } from 'react'
+import { Fragment, useEffect, useRef, useState } from 'react'
 
 type DevActions = {
-  toggleFlight: () => void
-  grantFlight: () => void
-  revokeFlight: () => void
+  // One grant/revoke pair per ability in DevInfo.abilities
+  grantAbility: (id: string) => void
+  revokeAbility: (id: string) => void
   killAllEnemies: () => void
   collectAllOrbs?: () => void
   restart?: () => void
+  // Returns reachability findings for the current level (slow: blocks the page)
+  analyzeLevel?: () => string[]
 }
 
 type DevInfo = {
-  canFly: boolean
+  abilities: { id: string; name: string; owned: boolean }[]
   enemiesAlive: number
   orbsCollected: number
   totalOrbs: number
@@ -24,6 +26,8 @@ type DevOverlayProps = {
 export default function DevOverlay({ getInfo, actions }: DevOverlayProps) {
   const [visible, setVisible] = useState(false)
   const [tick, setTick] = useState(0)
+  const [findings, setFindings] = useState<string[] | null>(null)
+  const [checking, setChecking] = useState(false)
   const rafRef = useRef<number | null>(null)
 
   useEffect(() => {
@@ -55,6 +59,20 @@ export default function DevOverlay({ getInfo, actions }: DevOverlayProps) {
 
   const info = getInfo()
 
+  const checkReachability = () => {
+    const analyze = actions.analyzeLevel
+    if (!analyze || checking) return
+    setChecking(true)
+    setFindings(null)
+    // Let "Checking…" paint before the analysis holds up the page
+    requestAnimationFrame(() =>
+      setTimeout(() => {
+        setFindings(analyze())
+        setChecking(false)
+      }, 0)
+    )
+  }
+
   return (
     <div
       style={{
@@ -75,22 +93,43 @@ export default function DevOverlay({ getInfo, actions }: DevOverlayProps) {
     >
       <div style={{ fontWeight: 700, marginBottom: 8 }}>DEV MODE (press T to close)</div>
       <div style={{ fontSize: 13, lineHeight: '18px', marginBottom: 8 }}>
-        <div>Flight: {info.canFly ? 'ON' : 'OFF'}</div>
+        {info.abilities.map((a) => (
+          <div key={a.id}>{a.name}: {a.owned ? 'ON' : 'OFF'}</div>
+        ))}
         <div>Enemies alive: {info.enemiesAlive}</div>
         <div>Orbs: {info.orbsCollected} / {info.totalOrbs}</div>
       </div>
       <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8 }}>
-        <button onClick={actions.toggleFlight} style={btn}>Toggle Flight</button>
+        {info.abilities.map((a) => (
+          <Fragment key={a.id}>
+            <button onClick={() => actions.grantAbility(a.id)} style={btn}>Grant {a.name}</button>
+            <button onClick={() => actions.revokeAbility(a.id)} style={btn}>Revoke {a.name}</button>
+          </Fragment>
+        ))}
         <button onClick={actions.killAllEnemies} style={btn}>Kill All Foes</button>
-        <button onClick={actions.grantFlight} style={btn}>Grant Flight</button>
-        <button onClick={actions.revokeFlight} style={btn}>Revoke Flight</button>
         {actions.collectAllOrbs && (
           <button onClick={actions.collectAllOrbs} style={btn}>Collect All Orbs</button>
         )}
         {actions.restart && (
           <button onClick={actions.restart} style={btn}>Restart</button>
         )}
+        {actions.analyzeLevel && (
+          <button onClick={checkReachability} disabled={checking} style={btn}>
+            {checking ? 'Checking…' : 'Check Reachability'}
+          </button>
+        )}
       </div>
+      {findings && (
+        <div style={{ fontSize: 12, lineHeight: '16px', marginTop: 8, maxHeight: 200, maxWidth: 360, overflowY: 'auto' }}>
+          {findings.length === 0 ? (
+            <div style={{ color: '#7dffb0' }}>Everything is reachable.</div>
+          ) : (
+            findings.map((line, i) => (
+              <div key={i} style={{ color: '#ffb3c8' }}>{line}</div>
+            ))
+          )}
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,522 @@
+import { useEffect, useRef, useState } from 'react'
+import {
+  T_BLOCK,
+  T_EMPTY,
+  T_GROUND,
+  T_ONEWAY,
+  T_SLOPE_DOWN,
+  T_SLOPE_DOWN_HIGH,
+  T_SLOPE_DOWN_LOW,
+  T_SLOPE_UP,
+  T_SLOPE_UP_HIGH,
+  T_SLOPE_UP_LOW,
+  T_SPIKE,
+  cloneLevelDefinition,
+  levelCols,
+  levelRows,
+  type LevelDefinition,
+} from '../engine/level'
+import { createEnemy, createOrb, createPlayer, type Enemy, type Orb } from '../engine/entities'
+import { createCheckpoint, type Checkpoint } from '../engine/checkpoints'
+import { createPickup, type Pickup } from '../engine/abilities'
+import { createBoss, type Boss } from '../engine/boss'
+import { createHazardPool, spawnTraps, type HazardPool } from '../engine/hazards'
+import { ENEMY_KINDS, ENEMY_TYPES } from '../engine/enemies'
+import { createPlatform, type MovingPlatform } from '../engine/platforms'
+import { drawBoss, drawPlayer, drawTilesAndObjects, hsl } from '../engine/render'
+import {
+  applyTool,
+  createBlankLevel,
+  pushUndo,
+  redo,
+  removeEntitiesAt,
+  replaceSessionLevel,
+  spawnForColumn,
+  undo,
+  type EditorSession,
+  type EditorTool,
+} from '../levels/editing'
+import { loadLevelFile, serializeLevelFile } from '../levels/levelFile'
+import { parseAsciiLevel } from '../levels/asciiLevel'
+import { encodeLevelLink } from '../levels/levelLink'
+import { importTiledMap, looksLikeTiledMap, parseTmx } from '../levels/tiledMap'
+
+type PaletteEntry = { label: string; tool: EditorTool }
+
+const PALETTE: PaletteEntry[] = [
+  { label: 'Empty', tool: { kind: 'tile', tile: T_EMPTY } },
+  { label: 'Ground', tool: { kind: 'tile', tile: T_GROUND } },
+  { label: 'Block', tool: { kind: 'tile', tile: T_BLOCK } },
+  { label: 'Spike', tool: { kind: 'tile', tile: T_SPIKE } },
+  { label: 'One-way', tool: { kind: 'tile', tile: T_ONEWAY } },
+  { label: 'Orb', tool: { kind: 'orb' } },
+  { label: 'Trickster', tool: { kind: 'enemy', type: 'TRICK' } },
+  { label: 'Hyper', tool: { kind: 'enemy', type: 'HYPER' } },
+  { label: 'Spawn', tool: { kind: 'spawn' } },
+  { label: 'Portal', tool: { kind: 'portal' } },
+  // Past the number keys: pick these with the mouse
+  { label: 'Checkpoint', tool: { kind: 'checkpoint' } },
+  { label: 'Mover', tool: { kind: 'platform' } },
+  { label: 'Double Jump', tool: { kind: 'pickup', ability: 'doubleJump' } },
+  { label: 'Spike Trap', tool: { kind: 'hazard', hazard: 'spikeTrap' } },
+  { label: 'Fire Bar', tool: { kind: 'hazard', hazard: 'fireBar' } },
+  { label: 'Boss', tool: { kind: 'boss' } },
+  // Enemy variants beyond the two on the number keys
+  ...ENEMY_TYPES.filter((type) => type !== 'TRICK' && type !== 'HYPER').map(
+    (type): PaletteEntry => ({ label: ENEMY_KINDS[type].name, tool: { kind: 'enemy', type } })
+  ),
+  { label: 'Slope 45° ◢', tool: { kind: 'tile', tile: T_SLOPE_UP } },
+  { label: 'Slope 45° ◣', tool: { kind: 'tile', tile: T_SLOPE_DOWN } },
+  { label: 'Slope 22° ◢ low', tool: { kind: 'tile', tile: T_SLOPE_UP_LOW } },
+  { label: 'Slope 22° ◢ high', tool: { kind: 'tile', tile: T_SLOPE_UP_HIGH } },
+  { label: 'Slope 22° ◣ high', tool: { kind: 'tile', tile: T_SLOPE_DOWN_HIGH } },
+  { label: 'Slope 22° ◣ low', tool: { kind: 'tile', tile: T_SLOPE_DOWN_LOW } },
+]
+
+// Live objects drawn by the editor, rebuilt from the definition
+type EditorPreview = { orbs: Orb[]; enemies: Enemy[]; checkpoints: Checkpoint[]; platforms: MovingPlatform[]; pickups: Pickup[]; hazards: HazardPool; boss: Boss | null }
+
+const SCROLL_SPEED = 640 // px/s while an arrow key is held
+
+type LevelEditorProps = {
+  session: EditorSession
+  onPlaytest: (level: LevelDefinition) => void
+  onExitToMenu: () => void
+}
+
+export default function LevelEditor({ session, onPlaytest, onExitToMenu }: LevelEditorProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null)
+  const fileInputRef = useRef<HTMLInputElement | null>(null)
+  const cameraRef = useRef<{ x: number; y: number }>({ x: 0, y: 0 })
+  const hoverRef = useRef<{ col: number; row: number } | null>(null)
+  const toolIndexRef = useRef<number>(1)
+  // Rebuilt whenever the definition changes
+  const previewRef = useRef<EditorPreview>({ orbs: [], enemies: [], checkpoints: [], platforms: [], pickups: [], hazards: createHazardPool(), boss: null })
+  const [toolIndex, setToolIndex] = useState(1)
+  const [, setRevision] = useState(0)
+  const [message, setMessage] = useState<string | null>(null)
+
+  toolIndexRef.current = toolIndex
+
+  // Rebuild preview objects and re-render toolbar state after any edit
+  function commitChange(): void {
+    previewRef.current = buildPreview(session.definition)
+    setRevision((r) => r + 1)
+  }
+
+  function handleUndo(): void {
+    if (undo(session)) commitChange()
+  }
+
+  function handleRedo(): void {
+    if (redo(session)) commitChange()
+  }
+
+  function handlePlaytest(): void {
+    const canvas = canvasRef.current
+    const def = cloneLevelDefinition(session.definition)
+    const viewWidth = canvas ? canvas.clientWidth : 0
+    const col = Math.floor((cameraRef.current.x + viewWidth / 2) / def.level.tileSize)
+    def.spawn = spawnForColumn(def, col)
+    onPlaytest(def)
+  }
+
+  function handleNew(): void {
+    replaceSessionLevel(session, createBlankLevel())
+    cameraRef.current.x = 0
+    setMessage(null)
+    commitChange()
+  }
+
+  function handleExport(): void {
+    const def = session.definition
+    const blob = new Blob([serializeLevelFile(def)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `${def.name.toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'level'}.json`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  async function handleShareLink(): Promise<void> {
+    const url = `${window.location.origin}${window.location.pathname}${encodeLevelLink(session.definition)}`
+    try {
+      await navigator.clipboard.writeText(url)
+      setMessage(`Link copied (${url.length} characters)`)
+    } catch {
+      // Clipboard access can be denied; show the link so it can be copied by hand
+      setMessage(url)
+    }
+  }
+
+  async function handleImportFile(file: File): Promise<void> {
+    try {
+      const text = await file.text()
+      const baseName = file.name.replace(/\.[^.]+$/, '')
+      let def: LevelDefinition
+      let warnings: string[] = []
+      if (file.name.endsWith('.txt')) {
+        def = parseAsciiLevel(text, { name: baseName })
+      } else if (file.name.endsWith('.tmx')) {
+        const imported = importTiledMap(parseTmx(text), baseName)
+        def = imported.definition
+        warnings = imported.warnings
+      } else {
+        // Tiled JSON (.tmj, or .json exported from Tiled) vs our own level files
+        let data: unknown = null
+        try {
+          data = JSON.parse(text)
+        } catch {
+          // loadLevelFile reports the syntax error
+        }
+        if (looksLikeTiledMap(data)) {
+          const imported = importTiledMap(data, baseName)
+          def = imported.definition
+          warnings = imported.warnings
+        } else {
+          def = loadLevelFile(text)
+        }
+      }
+      replaceSessionLevel(session, def)
+      cameraRef.current.x = 0
+      setMessage([`Imported "${def.name}"`, ...warnings.map((w) => `⚠ ${w}`)].join('\n'))
+      commitChange()
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  // Keep the latest handlers reachable from the long-lived effect below
+  const handlersRef = useRef({ commitChange, handleUndo, handleRedo, handlePlaytest, onExitToMenu })
+  handlersRef.current = { commitChange, handleUndo, handleRedo, handlePlaytest, onExitToMenu }
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    const context = canvas.getContext('2d')
+    if (!context) return
+
+    previewRef.current = buildPreview(session.definition)
+
+    const handleResize = () => {
+      const scale = window.devicePixelRatio || 1
+      canvas.width = Math.floor(window.innerWidth * scale)
+      canvas.height = Math.floor(window.innerHeight * scale)
+      canvas.style.width = `${window.innerWidth}px`
+      canvas.style.height = `${window.innerHeight}px`
+      context.setTransform(scale, 0, 0, scale, 0, 0)
+    }
+    handleResize()
+    window.addEventListener('resize', handleResize)
+    const previousOverflow = document.body.style.overflow
+    document.body.style.overflow = 'hidden'
+
+    const scroll = { left: false, right: false, up: false, down: false }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const code = event.code
+      const mod = event.ctrlKey || event.metaKey
+      if (mod && code === 'KeyZ') {
+        event.preventDefault()
+        if (event.shiftKey) handlersRef.current.handleRedo()
+        else handlersRef.current.handleUndo()
+        return
+      }
+      if (mod && code === 'KeyY') {
+        event.preventDefault()
+        handlersRef.current.handleRedo()
+        return
+      }
+      if (code === 'ArrowLeft' || code === 'KeyA') scroll.left = true
+      if (code === 'ArrowRight' || code === 'KeyD') scroll.right = true
+      if (code === 'ArrowUp' || code === 'KeyW') scroll.up = true
+      if (code === 'ArrowDown' || code === 'KeyS') scroll.down = true
+      if (code.startsWith('Arrow')) event.preventDefault()
+      if (code.startsWith('Digit')) {
+        // 0 selects the tenth tool
+        const n = Number(code.slice(5)) || 10
+        if (n >= 1 && n <= PALETTE.length) setToolIndex(n - 1)
+      }
+      if (code === 'KeyP') handlersRef.current.handlePlaytest()
+      if (code === 'Escape') handlersRef.current.onExitToMenu()
+    }
+
+    const handleKeyUp = (event: KeyboardEvent) => {
+      const code = event.code
+      if (code === 'ArrowLeft' || code === 'KeyA') scroll.left = false
+      if (code === 'ArrowRight' || code === 'KeyD') scroll.right = false
+      if (code === 'ArrowUp' || code === 'KeyW') scroll.up = false
+      if (code === 'ArrowDown' || code === 'KeyS') scroll.down = false
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    window.addEventListener('keyup', handleKeyUp)
+
+    function clampCamera(): void {
+      const def = session.definition
+      const maxX = Math.max(0, levelCols(def.level) * def.level.tileSize - canvas!.clientWidth)
+      const maxY = Math.max(0, levelRows(def.level) * def.level.tileSize - canvas!.clientHeight)
+      cameraRef.current.x = Math.max(0, Math.min(maxX, cameraRef.current.x))
+      cameraRef.current.y = Math.max(0, Math.min(maxY, cameraRef.current.y))
+    }
+
+    function cellAt(event: MouseEvent): { col: number; row: number } {
+      const rect = canvas!.getBoundingClientRect()
+      const ts = session.definition.level.tileSize
+      return {
+        col: Math.floor((event.clientX - rect.left + cameraRef.current.x) / ts),
+        row: Math.floor((event.clientY - rect.top + cameraRef.current.y) / ts),
+      }
+    }
+
+    // A stroke is one mouse press; it records a single undo step if it changed anything
+    let stroke: { button: number; pushed: boolean } | null = null
+
+    function strokeAt(cell: { col: number; row: number }): void {
+      const current = stroke
+      if (!current) return
+      // Record the pre-stroke state right before the stroke's first real edit
+      const beforeChange = () => {
+        if (current.pushed) return
+        pushUndo(session)
+        current.pushed = true
+      }
+      const def = session.definition
+      const changed =
+        current.button === 2
+          ? removeEntitiesAt(def, cell.col, cell.row, beforeChange)
+          : applyTool(def, PALETTE[toolIndexRef.current].tool, cell.col, cell.row, beforeChange)
+      if (changed) handlersRef.current.commitChange()
+    }
+
+    const handleMouseDown = (event: MouseEvent) => {
+      if (event.button !== 0 && event.button !== 2) return
+      stroke = { button: event.button, pushed: false }
+      strokeAt(cellAt(event))
+    }
+    const handleMouseMove = (event: MouseEvent) => {
+      const cell = cellAt(event)
+      hoverRef.current = cell
+      strokeAt(cell)
+    }
+    const handleMouseUp = () => {
+      stroke = null
+    }
+    const handleMouseLeave = () => {
+      hoverRef.current = null
+    }
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault()
+      cameraRef.current.x += event.deltaX + (event.shiftKey ? 0 : event.deltaY)
+      if (event.shiftKey) cameraRef.current.y += event.deltaY
+      clampCamera()
+    }
+    const handleContextMenu = (event: MouseEvent) => event.preventDefault()
+
+    canvas.addEventListener('mousedown', handleMouseDown)
+    canvas.addEventListener('mousemove', handleMouseMove)
+    canvas.addEventListener('mouseleave', handleMouseLeave)
+    canvas.addEventListener('wheel', handleWheel, { passive: false })
+    canvas.addEventListener('contextmenu', handleContextMenu)
+    window.addEventListener('mouseup', handleMouseUp)
+
+    let raf = 0
+    let last = performance.now()
+    const frame = (nowMs: number) => {
+      const dt = Math.min(0.1, (nowMs - last) / 1000)
+      last = nowMs
+      const cam = cameraRef.current
+      cam.x += ((scroll.right ? 1 : 0) - (scroll.left ? 1 : 0)) * SCROLL_SPEED * dt
+      cam.y += ((scroll.down ? 1 : 0) - (scroll.up ? 1 : 0)) * SCROLL_SPEED * dt
+      clampCamera()
+      drawEditorFrame(context, session.definition, previewRef.current, cam, hoverRef.current, nowMs / 1000)
+      raf = requestAnimationFrame(frame)
+    }
+    raf = requestAnimationFrame(frame)
+
+    return () => {
+      cancelAnimationFrame(raf)
+      window.removeEventListener('resize', handleResize)
+      window.removeEventListener('keydown', handleKeyDown)
+      window.removeEventListener('keyup', handleKeyUp)
+      window.removeEventListener('mouseup', handleMouseUp)
+      canvas.removeEventListener('mousedown', handleMouseDown)
+      canvas.removeEventListener('mousemove', handleMouseMove)
+      canvas.removeEventListener('mouseleave', handleMouseLeave)
+      canvas.removeEventListener('wheel', handleWheel)
+      canvas.removeEventListener('contextmenu', handleContextMenu)
+      document.body.style.overflow = previousOverflow
+    }
+  }, [session])
+
+  const def = session.definition
+
+  return (
+    <>
+      <canvas
+        ref={canvasRef}
+        style={{ width: '100vw', height: '100vh', display: 'block', background: '#0b1020', cursor: 'crosshair' }}
+      />
+      <div style={toolbar}>
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6 }}>
+          {PALETTE.map((entry, i) => (
+            <button
+              key={entry.label}
+              onClick={() => setToolIndex(i)}
+              style={i === toolIndex ? { ...btn, ...btnActive } : btn}
+              title={i < 10 ? `Key ${(i + 1) % 10}` : undefined}
+            >
+              {entry.label}
+            </button>
+          ))}
+        </div>
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, marginTop: 8 }}>
+          <button onClick={handleUndo} disabled={session.undoStack.length === 0} style={btn}>Undo</button>
+          <button onClick={handleRedo} disabled={session.redoStack.length === 0} style={btn}>Redo</button>
+          <button onClick={handlePlaytest} style={btn}>Play-test from here (P)</button>
+          <button onClick={handleNew} style={btn}>New</button>
+          <button onClick={() => fileInputRef.current && fileInputRef.current.click()} style={btn}>Import</button>
+          <button onClick={handleExport} style={btn}>Export</button>
+          <button onClick={handleShareLink} style={btn}>Share Link</button>
+          <button onClick={onExitToMenu} style={btn}>Menu (Esc)</button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.txt,.tmj,.tmx"
+            style={{ display: 'none' }}
+            onChange={(e) => {
+              const file = e.target.files && e.target.files[0]
+              if (file) handleImportFile(file)
+              e.target.value = ''
+            }}
+          />
+        </div>
+        <div style={{ fontSize: 12, opacity: 0.85, marginTop: 8 }}>
+          {def.name} · {levelCols(def.level)}×{levelRows(def.level)} · {def.orbs.length} orbs · {def.enemies.length} foes
+          <br />
+          Left click: paint/place · Right click: remove orb/foe · Scroll: ←/→ or wheel · Ctrl+Z / Ctrl+Y
+        </div>
+        {message && <div style={{ fontSize: 12, marginTop: 8, whiteSpace: 'pre-wrap', wordBreak: 'break-all', color: '#ffd6f5' }}>{message}</div>}
+      </div>
+    </>
+  )
+}
+
+function buildPreview(def: LevelDefinition): EditorPreview {
+  const preview: EditorPreview = {
+    orbs: def.orbs.map(createOrb),
+    enemies: def.enemies.map((e) => createEnemy(e, def.level.tileSize)),
+    checkpoints: def.checkpoints.map((c) => createCheckpoint(c, def.level.tileSize)),
+    platforms: def.platforms.map((p) => createPlatform(p, def.level.tileSize)),
+    pickups: def.pickups.map((u) => createPickup(u, def.level.tileSize)),
+    hazards: createHazardPool(),
+    boss: def.boss ? createBoss(def.boss, def.level.tileSize) : null,
+  }
+  spawnTraps(preview.hazards, def.hazards, def.level.tileSize)
+  return preview
+}
+
+function drawEditorFrame(
+  context: CanvasRenderingContext2D,
+  def: LevelDefinition,
+  preview: EditorPreview,
+  camera: { x: number; y: number },
+  hover: { col: number; row: number } | null,
+  timeSeconds: number
+) {
+  const width = context.canvas.clientWidth
+  const height = context.canvas.clientHeight
+  const ts = def.level.tileSize
+  context.fillStyle = '#0b1020'
+  context.fillRect(0, 0, width, height)
+
+  // Grid
+  context.save()
+  context.translate(-camera.x, -camera.y)
+  context.strokeStyle = 'rgba(255,255,255,0.07)'
+  context.lineWidth = 1
+  context.beginPath()
+  const worldW = levelCols(def.level) * ts
+  const worldH = levelRows(def.level) * ts
+  for (let x = Math.floor(camera.x / ts) * ts; x <= Math.min(worldW, camera.x + width); x += ts) {
+    context.moveTo(x + 0.5, 0)
+    context.lineTo(x + 0.5, worldH)
+  }
+  for (let y = 0; y <= worldH; y += ts) {
+    context.moveTo(camera.x, y + 0.5)
+    context.lineTo(Math.min(worldW, camera.x + width), y + 0.5)
+  }
+  context.stroke()
+  context.restore()
+
+  drawTilesAndObjects(context, def.level, camera.x, camera.y, width, height, timeSeconds, preview.orbs, preview.enemies, preview.checkpoints, preview.platforms, preview.pickups, preview.hazards)
+
+  // Moving platform paths
+  context.save()
+  context.translate(-camera.x, -camera.y)
+  context.setLineDash([6, 6])
+  context.strokeStyle = 'rgba(120, 220, 255, 0.5)'
+  context.lineWidth = 2
+  for (const p of preview.platforms) {
+    context.beginPath()
+    p.waypoints.forEach((w, i) => {
+      const x = w.x + p.width / 2
+      if (i === 0) context.moveTo(x, w.y)
+      else context.lineTo(x, w.y)
+    })
+    context.stroke()
+  }
+  // Boss arena edges
+  if (preview.boss) {
+    context.strokeStyle = 'rgba(255, 120, 220, 0.5)'
+    context.beginPath()
+    context.moveTo(preview.boss.arenaLeft, 0)
+    context.lineTo(preview.boss.arenaLeft, worldH)
+    context.moveTo(preview.boss.arenaRight, 0)
+    context.lineTo(preview.boss.arenaRight, worldH)
+    context.stroke()
+  }
+  context.restore()
+  if (preview.boss) drawBoss(context, preview.boss, camera.x, camera.y, timeSeconds)
+
+  // Spawn marker uses the in-game wizard
+  const spawnPlayer = createPlayer(def.spawn)
+  drawPlayer(context, spawnPlayer, camera.x, camera.y, timeSeconds, [])
+
+  if (hover) {
+    context.strokeStyle = hsl(timeSeconds * 120, 100, 70)
+    context.lineWidth = 2
+    context.strokeRect(hover.col * ts - camera.x + 1, hover.row * ts - camera.y + 1, ts - 2, ts - 2)
+  }
+}
+
+const toolbar: React.CSSProperties = {
+  position: 'fixed',
+  top: 12,
+  left: 12,
+  maxWidth: 720,
+  zIndex: 10,
+  background: 'rgba(10, 10, 20, 0.85)',
+  color: '#eaffff',
+  padding: '10px 12px',
+  borderRadius: 8,
+  border: '1px solid rgba(255,255,255,0.15)',
+  fontFamily: 'system-ui, -apple-system, Segoe UI, Roboto',
+  textAlign: 'left',
+  userSelect: 'none',
+}
+
+const btn: React.CSSProperties = {
+  background: 'rgba(255,255,255,0.08)',
+  color: '#eaffff',
+  border: '1px solid rgba(255,255,255,0.2)',
+  borderRadius: 6,
+  padding: '6px 8px',
+  cursor: 'pointer',
+}
+
+const btnActive: React.CSSProperties = {
+  background: 'rgba(0, 200, 255, 0.28)',
+  border: '1px solid rgba(0, 220, 255, 0.7)',
+}
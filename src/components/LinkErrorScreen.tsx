@@ -0,0 +1,88 @@
+import { useEffect } from 'react'
+import MandalaBackground from './MandalaBackground'
+
+type LinkErrorScreenProps = {
+  issues: string[]
+  onExitToMenu: () => void
+  // Defaults describe a broken level link
+  title?: string
+  hint?: string
+}
+
+// Shown instead of the game when a shared level link (or replay file) cannot be loaded
+export default function LinkErrorScreen({
+  issues,
+  onExitToMenu,
+  title = 'This level link is broken',
+  hint = 'The link may have been cut off when it was copied, or changed by hand. Ask for a fresh link.',
+}: LinkErrorScreenProps) {
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.code === 'Enter' || e.code === 'Space' || e.code === 'Escape') {
+        e.preventDefault()
+        onExitToMenu()
+      }
+    }
+    window.addEventListener('keydown', handleKey)
+    return () => window.removeEventListener('keydown', handleKey)
+  }, [onExitToMenu])
+
+  return (
+    <div style={{ position: 'relative', width: '100vw', height: '100vh', overflow: 'hidden' }}>
+      <MandalaBackground />
+      <div
+        style={{
+          position: 'absolute',
+          inset: 0,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          zIndex: 2,
+        }}
+      >
+        <div style={panel}>
+          <div style={{ fontSize: 34, fontWeight: 800, marginBottom: 10, textShadow: '0 2px 12px rgba(0,0,0,0.85)' }}>
+            {title}
+          </div>
+          <div style={{ fontSize: 15, opacity: 0.95, marginBottom: 14 }}>
+            {hint}
+          </div>
+          <ul style={{ textAlign: 'left', fontSize: 13, color: '#ffb3c8', margin: '0 0 18px', paddingLeft: 20 }}>
+            {issues.map((issue, i) => (
+              <li key={i}>{issue}</li>
+            ))}
+          </ul>
+          <button style={menuButton} onClick={onExitToMenu}>
+            Back to Menu (Enter)
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+const panel: React.CSSProperties = {
+  maxWidth: 520,
+  textAlign: 'center',
+  color: '#eaffff',
+  fontFamily: 'system-ui, -apple-system, Segoe UI, Roboto',
+  background: 'rgba(5, 10, 20, 0.6)',
+  border: '1px solid rgba(255,255,255,0.22)',
+  borderRadius: 14,
+  padding: '22px 26px 18px',
+  boxShadow: '0 10px 40px rgba(0,0,0,0.5)',
+  backdropFilter: 'blur(6px)',
+  WebkitBackdropFilter: 'blur(6px)',
+}
+
+const menuButton: React.CSSProperties = {
+  fontSize: 18,
+  padding: '12px 18px',
+  borderRadius: 12,
+  border: '1px solid rgba(255,255,255,0.3)',
+  background: 'rgba(255,255,255,0.12)',
+  color: '#eaffff',
+  cursor: 'pointer',
+  boxShadow: '0 6px 20px rgba(0,0,0,0.35), 0 0 18px rgba(0, 200, 255, 0.22) inset',
+  textShadow: '0 2px 10px rgba(0,0,0,0.7)',
+}
@@ -1,23 +1,45 @@
-import { useEffect } from 'react'
+import { useEffect, useRef } from 'react'
 import { audio } from '../audio/AudioManager'
 import MandalaBackground from './MandalaBackground'
 
+export type LevelSelectEntry = {
+  name: string
+  unlocked: boolean
+  completed: boolean
+}
+
 type MainMenuProps = {
   onStart: () => void
+  levels?: LevelSelectEntry[]
+  onSelectLevel?: (index: number) => void
+  onOpenEditor?: () => void
+  onStartRun?: () => void
+  // A replay file picked to watch
+  onOpenReplay?: (file: File) => void
 }
 
-export default function MainMenu({ onStart }: MainMenuProps) {
+export default function MainMenu({ onStart, levels, onSelectLevel, onOpenEditor, onStartRun, onOpenReplay }: MainMenuProps) {
+  const replayInputRef = useRef<HTMLInputElement | null>(null)
+
   useEffect(() => {
     const handleKey = (e: KeyboardEvent) => {
       if (e.code === 'Enter' || e.code === 'Space') {
         e.preventDefault()
         onStart()
       }
+      // Number keys jump straight to an unlocked level
+      if (levels && onSelectLevel && e.code.startsWith('Digit')) {
+        const index = Number(e.code.slice(5)) - 1
+        if (index >= 0 && index < levels.length && levels[index].unlocked) onSelectLevel(index)
+      }
+      if (e.code === 'KeyE' && onOpenEditor) onOpenEditor()
+      if (e.code === 'KeyH' && onStartRun) onStartRun()
+      if (e.code === 'KeyP' && replayInputRef.current) replayInputRef.current.click()
       if (e.code === 'KeyM') audio.toggleMute()
     }
     window.addEventListener('keydown', handleKey)
     return () => window.removeEventListener('keydown', handleKey)
-  }, [onStart])
+  }, [onStart, levels, onSelectLevel, onOpenEditor, onStartRun])
 
   return (
     <div
@@ -71,22 +93,84 @@ export default function MainMenu({ onStart }: MainMenuProps) {
           >
             Collect orbs, defeat foes, transcend the level.
           </div>
-          <button
-            style={{
-              fontSize: 18,
-              padding: '12px 18px',
-              borderRadius: 12,
-              border: '1px solid rgba(255,255,255,0.3)',
-              background: 'rgba(255,255,255,0.12)',
-              color: '#eaffff',
-              cursor: 'pointer',
-              boxShadow: '0 6px 20px rgba(0,0,0,0.35), 0 0 18px rgba(0, 200, 255, 0.22) inset',
-              textShadow: '0 2px 10px rgba(0,0,0,0.7)',
-            }}
-            onClick={onStart}
-          >
-            Start Game (Enter)
+          <button style={menuButton} onClick={onStart}>
+            {levels && levels.some((l) => l.completed) ? 'Continue (Enter)' : 'Start Game (Enter)'}
           </button>
+          {onOpenEditor && (
+            <button
+              style={{ ...menuButton, marginLeft: 10 }}
+              onClick={(e) => {
+                // Keep the backdrop click from also starting the game
+                e.stopPropagation()
+                onOpenEditor()
+              }}
+            >
+              Level Editor (E)
+            </button>
+          )}
+          {onStartRun && (
+            <button
+              style={{ ...menuButton, marginLeft: 10 }}
+              onClick={(e) => {
+                e.stopPropagation()
+                onStartRun()
+              }}
+            >
+              Hyperspace Run (H)
+            </button>
+          )}
+          {onOpenReplay && (
+            <>
+              <button
+                style={{ ...menuButton, marginLeft: 10 }}
+                onClick={(e) => {
+                  e.stopPropagation()
+                  if (replayInputRef.current) replayInputRef.current.click()
+                }}
+              >
+                Watch Replay (P)
+              </button>
+              <input
+                ref={replayInputRef}
+                type="file"
+                accept=".json"
+                style={{ display: 'none' }}
+                onClick={(e) => e.stopPropagation()}
+                onChange={(e) => {
+                  const file = e.target.files && e.target.files[0]
+                  if (file) onOpenReplay(file)
+                  e.target.value = ''
+                }}
+              />
+            </>
+          )}
+          {levels && onSelectLevel && (
+            <div
+              style={{
+                display: 'grid',
+                gridTemplateColumns: `repeat(${Math.min(4, levels.length)}, 1fr)`,
+                gap: 8,
+                marginTop: 18,
+              }}
+            >
+              {levels.map((entry, i) => (
+                <button
+                  key={entry.name}
+                  disabled={!entry.unlocked}
+                  style={entry.unlocked ? levelButton : { ...levelButton, ...levelButtonLocked }}
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    if (entry.unlocked) onSelectLevel(i)
+                  }}
+                >
+                  <div style={{ fontWeight: 700 }}>
+                    {i + 1}. {entry.completed ? '✓' : entry.unlocked ? '' : '🔒'}
+                  </div>
+                  <div style={{ fontSize: 12, opacity: 0.9 }}>{entry.unlocked ? entry.name : 'Locked'}</div>
+                </button>
+              ))}
+            </div>
+          )}
           <div
             style={{
               fontSize: 13,
@@ -95,7 +179,7 @@ export default function MainMenu({ onStart }: MainMenuProps) {
               textShadow: '0 2px 8px rgba(0,0,0,0.8)',
             }}
           >
-            Move: ← →  | Jump: SPACE | Run: SHIFT/X | Dev: T | Mute: M
+            Move: ← →  | Jump: SPACE | Run: SHIFT/X | Dev: T | Mute: M | Editor: E | Run: H | Replay: P | Levels: 1-9
           </div>
         </div>
       </div>
@@ -103,4 +187,29 @@ export default function MainMenu({ onStart }: MainMenuProps) {
   )
 }
 
+const menuButton: React.CSSProperties = {
+  fontSize: 18,
+  padding: '12px 18px',
+  borderRadius: 12,
+  border: '1px solid rgba(255,255,255,0.3)',
+  background: 'rgba(255,255,255,0.12)',
+  color: '#eaffff',
+  cursor: 'pointer',
+  boxShadow: '0 6px 20px rgba(0,0,0,0.35), 0 0 18px rgba(0, 200, 255, 0.22) inset',
+  textShadow: '0 2px 10px rgba(0,0,0,0.7)',
+}
 
+const levelButton: React.CSSProperties = {
+  padding: '8px 10px',
+  borderRadius: 10,
+  border: '1px solid rgba(255,255,255,0.3)',
+  background: 'rgba(255,255,255,0.1)',
+  color: '#eaffff',
+  cursor: 'pointer',
+  minWidth: 110,
+}
+
+const levelButtonLocked: React.CSSProperties = {
+  opacity: 0.45,
+  cursor: 'not-allowed',
+}
@@ -0,0 +1,235 @@
+import type { PickupSpec } from './level'
+import type { PlayerState } from './entities'
+
+// Abilities (power-ups) the wizard can hold. Each one is plain data: how it
+// unlocks, whether it runs out, how many uses it has per refill and how the
+// HUD shows it. The simulation only asks hasAbility/spendCharge, so a new
+// ability is one more entry in ABILITIES plus the code that reads it.
+
+export type AbilityId = 'flight' | 'doubleJump' | 'dash' | 'spells'
+
+export type UnlockCondition =
+  | { kind: 'start' } // held from the beginning
+  | { kind: 'defeatAll' } // every enemy defeated
+  | { kind: 'orbs'; count: number } // that many orbs collected (0 = every orb, never met in a level without orbs)
+  | { kind: 'pickup' } // touching one of the level's pickups for it
+
+export type AbilityDefinition = {
+  id: AbilityId
+  name: string
+  unlock: UnlockCondition
+  duration: number // seconds it lasts once granted (0 = until revoked)
+  charges: number // uses per refill (0 = unlimited)
+  hint: string // control hint for the HUD
+  hue: number
+  // Runs every simulation step while the ability is held
+  onStep?: (player: PlayerState, state: AbilityState, def: AbilityDefinition) => void
+}
+
+export type AbilityState = {
+  owned: boolean
+  // The unlock condition already paid out (so revoking doesn't re-trigger it)
+  awarded: boolean
+  timeLeft: number
+  charges: number
+}
+
+export type AbilitySet = Record<AbilityId, AbilityState>
+
+// Charges come back whenever the wizard stands on something
+function refillOnLanding(player: PlayerState, state: AbilityState, def: AbilityDefinition): void {
+  if (player.isOnGround) state.charges = def.charges
+}
+
+export const ABILITIES: readonly AbilityDefinition[] = [
+  { id: 'spells', name: 'Spells', unlock: { kind: 'start' }, duration: 0, charges: 0, hint: 'Cast: S', hue: 185 },
+  { id: 'flight', name: 'Flight', unlock: { kind: 'defeatAll' }, duration: 0, charges: 0, hint: 'Fly: hold SPACE', hue: 280 },
+  { id: 'dash', name: 'Dash', unlock: { kind: 'orbs', count: 0 }, duration: 0, charges: 1, hint: 'Dash: C', hue: 195, onStep: refillOnLanding },
+  {
+    id: 'doubleJump',
+    name: 'Double Jump',
+    unlock: { kind: 'pickup' },
+    duration: 30,
+    charges: 1,
+    hint: 'Double jump: SPACE in the air',
+    hue: 50,
+    onStep: refillOnLanding,
+  },
+]
+
+export function abilityDefinition(id: AbilityId): AbilityDefinition {
+  for (let i = 0; i < ABILITIES.length; i += 1) {
+    if (ABILITIES[i].id === id) return ABILITIES[i]
+  }
+  throw new Error(`unknown ability: ${id}`)
+}
+
+export function isAbilityId(value: unknown): value is AbilityId {
+  return ABILITIES.some((a) => a.id === value)
+}
+
+export function createAbilitySet(): AbilitySet {
+  const set = {} as AbilitySet
+  for (const def of ABILITIES) {
+    const atStart = def.unlock.kind === 'start'
+    set[def.id] = { owned: atStart, awarded: atStart, timeLeft: def.duration, charges: def.charges }
+  }
+  return set
+}
+
+export function cloneAbilitySet(set: AbilitySet): AbilitySet {
+  const copy = {} as AbilitySet
+  for (const def of ABILITIES) copy[def.id] = { ...set[def.id] }
+  return copy
+}
+
+export function hasAbility(player: PlayerState, id: AbilityId): boolean {
+  return player.abilities[id].owned
+}
+
+// Full duration and charges
+export function grantAbility(player: PlayerState, id: AbilityId): void {
+  const def = abilityDefinition(id)
+  const state = player.abilities[id]
+  state.owned = true
+  state.timeLeft = def.duration
+  state.charges = def.charges
+}
+
+export function revokeAbility(player: PlayerState, id: AbilityId): void {
+  player.abilities[id].owned = false
+}
+
+// Spend one use; false when the ability isn't held or is out of charges
+export function spendCharge(player: PlayerState, id: AbilityId): boolean {
+  const state = player.abilities[id]
+  if (!state.owned) return false
+  if (abilityDefinition(id).charges === 0) return true
+  if (state.charges <= 0) return false
+  state.charges -= 1
+  return true
+}
+
+export function refillCharges(player: PlayerState, id: AbilityId): void {
+  player.abilities[id].charges = abilityDefinition(id).charges
+}
+
+// Per-step hooks and timed abilities running out
+export function tickAbilities(player: PlayerState, fixedDeltaSeconds: number): void {
+  for (let i = 0; i < ABILITIES.length; i += 1) {
+    const def = ABILITIES[i]
+    const state = player.abilities[def.id]
+    if (!state.owned) continue
+    if (def.onStep) def.onStep(player, state, def)
+    if (def.duration > 0) {
+      state.timeLeft = Math.max(0, state.timeLeft - fixedDeltaSeconds)
+      if (state.timeLeft === 0) state.owned = false
+    }
+  }
+}
+
+export type UnlockProgress = {
+  enemiesAlive: number
+  orbsCollected: number
+  totalOrbs: number
+}
+
+// Grant abilities whose condition has just been met; returns the newly
+// unlocked ones (for the HUD message and sound)
+export function checkUnlocks(player: PlayerState, progress: UnlockProgress): AbilityDefinition[] {
+  const unlocked: AbilityDefinition[] = []
+  for (const def of ABILITIES) {
+    const state = player.abilities[def.id]
+    if (state.awarded || !conditionMet(def.unlock, progress)) continue
+    state.awarded = true
+    grantAbility(player, def.id)
+    unlocked.push(def)
+  }
+  return unlocked
+}
+
+function conditionMet(unlock: UnlockCondition, progress: UnlockProgress): boolean {
+  switch (unlock.kind) {
+    case 'start':
+      return true
+    case 'defeatAll':
+      return progress.enemiesAlive === 0
+    case 'orbs':
+      // With no orbs to collect, "every orb" would hold from the first step
+      if (unlock.count === 0) return progress.totalOrbs > 0 && progress.orbsCollected >= progress.totalOrbs
+      return progress.orbsCollected >= unlock.count
+    case 'pickup':
+      return false
+  }
+}
+
+// HUD view of a held ability: share of its duration left and charges left
+export type AbilityIndicator = {
+  name: string
+  hint: string
+  hue: number
+  remaining: number | null
+  charges: number | null
+}
+
+export function abilityIndicators(player: PlayerState): AbilityIndicator[] {
+  const out: AbilityIndicator[] = []
+  for (const def of ABILITIES) {
+    const state = player.abilities[def.id]
+    if (!state.owned) continue
+    out.push({
+      name: def.name,
+      hint: def.hint,
+      hue: def.hue,
+      remaining: def.duration > 0 ? state.timeLeft / def.duration : null,
+      charges: def.charges > 0 ? state.charges : null,
+    })
+  }
+  return out
+}
+
+// Pickups: floating items that grant their ability when touched
+
+export type Pickup = {
+  x: number
+  y: number
+  width: number
+  height: number
+  ability: AbilityId
+  collected: boolean
+}
+
+const PICKUP_SIZE = 20
+
+// Floats a little above the top of tile row `row`
+export function createPickup(spec: PickupSpec, tileSize: number): Pickup {
+  return {
+    x: spec.col * tileSize + (tileSize - PICKUP_SIZE) / 2,
+    y: spec.row * tileSize - PICKUP_SIZE - 10,
+    width: PICKUP_SIZE,
+    height: PICKUP_SIZE,
+    ability: spec.ability,
+    collected: false,
+  }
+}
+
+// Collect every pickup the player overlaps; returns the abilities granted
+export function collectPickups(pickups: Pickup[], player: PlayerState): AbilityDefinition[] {
+  const granted: AbilityDefinition[] = []
+  for (let i = 0; i < pickups.length; i += 1) {
+    const p = pickups[i]
+    if (p.collected) continue
+    if (
+      player.positionX < p.x + p.width &&
+      player.positionX + player.width > p.x &&
+      player.positionY < p.y + p.height &&
+      player.positionY + player.height > p.y
+    ) {
+      p.collected = true
+      player.abilities[p.ability].awarded = true
+      grantAbility(player, p.ability)
+      granted.push(abilityDefinition(p.ability))
+    }
+  }
+  return granted
+}
@@ -0,0 +1,300 @@
+import type { BossSpec } from './level'
+import { createEnemy, type Enemy, type PlayerState } from './entities'
+import type { EnemyType } from './enemies'
+import { spawnProjectile, type HazardPool } from './hazards'
+import type { Rng } from './rng'
+import type { Projectile } from './spells'
+
+// End-of-level boss. It sleeps until the player walks into its arena, then
+// locks the camera there and cycles through its current phase's attacks
+// (shot volleys, charges across the arena, summoning minions) until its
+// health runs out. The level's portal only opens once it is defeated.
+
+export type BossAttack =
+  // `count` shots aimed at the player, fanned over `spread` radians
+  | { kind: 'volley'; count: number; spread: number; speed: number }
+  // Run across the arena toward the side the player is on
+  | { kind: 'charge'; speed: number }
+  // Bring in minions beside the boss (skipped while `maxAlive` are still up)
+  | { kind: 'summon'; types: EnemyType[]; maxAlive: number }
+
+export type BossPhase = {
+  fromHealth: number // share of max health at which this phase starts
+  paceSpeed: number // px/s while walking toward the player between attacks
+  pause: number // s between attacks
+  attacks: BossAttack[] // used in order, then repeated
+}
+
+export const BOSS = {
+  name: 'Warp Archon',
+  maxHealth: 12,
+  width: 56,
+  height: 56,
+  contactDamage: 2,
+  stompDamage: 2,
+  spellDamage: 1,
+  hurtTime: 0.35, // s of ignored hits after taking damage
+  windupTime: 0.55, // s of telegraph before each attack
+  recoverTime: 0.6, // s standing still after a charge
+  phases: [
+    {
+      fromHealth: 1,
+      paceSpeed: 50,
+      pause: 1.4,
+      attacks: [
+        { kind: 'volley', count: 3, spread: 0.5, speed: 260 },
+        { kind: 'charge', speed: 380 },
+      ],
+    },
+    {
+      fromHealth: 0.66,
+      paceSpeed: 70,
+      pause: 1.1,
+      attacks: [
+        { kind: 'summon', types: ['TRICK', 'TRICK'], maxAlive: 3 },
+        { kind: 'volley', count: 5, spread: 0.8, speed: 300 },
+        { kind: 'charge', speed: 440 },
+      ],
+    },
+    {
+      fromHealth: 0.33,
+      paceSpeed: 90,
+      pause: 0.8,
+      attacks: [
+        { kind: 'charge', speed: 520 },
+        { kind: 'volley', count: 7, spread: 1.1, speed: 330 },
+        { kind: 'summon', types: ['HYPER'], maxAlive: 3 },
+      ],
+    },
+  ] as BossPhase[],
+}
+
+export type BossState = 'dormant' | 'idle' | 'windup' | 'charging' | 'recover' | 'defeated'
+
+export type Boss = {
+  x: number
+  y: number
+  width: number
+  height: number
+  velocityX: number
+  facing: 1 | -1
+  health: number
+  phase: number
+  state: BossState
+  // Countdown for the current state
+  timer: number
+  // Next attack within the phase's list
+  attackIndex: number
+  hurtTimer: number
+  // Arena edges in px; the boss, player and camera stay between them while it fights
+  arenaLeft: number
+  arenaRight: number
+  // Tile row the boss stands on (minions are placed on it too)
+  floorRow: number
+}
+
+// What happened this step, for sounds
+export type BossEvent = 'engage' | 'volley' | 'charge' | 'summon'
+
+const SHOT_SIZE = 12
+const SHOT_DAMAGE = 1
+const SHOT_HUE = 320
+
+export function createBoss(spec: BossSpec, tileSize: number): Boss {
+  return {
+    x: spec.col * tileSize + (tileSize - BOSS.width) / 2,
+    y: spec.row * tileSize - BOSS.height,
+    width: BOSS.width,
+    height: BOSS.height,
+    velocityX: 0,
+    facing: -1,
+    health: BOSS.maxHealth,
+    phase: 0,
+    state: 'dormant',
+    timer: 0,
+    attackIndex: 0,
+    hurtTimer: 0,
+    arenaLeft: spec.arenaFrom * tileSize,
+    arenaRight: (spec.arenaTo + 1) * tileSize,
+    floorRow: spec.row,
+  }
+}
+
+// Fighting: the arena is locked
+export function bossEngaged(boss: Boss | null): boolean {
+  return boss !== null && boss.state !== 'dormant' && boss.state !== 'defeated'
+}
+
+// Levels without a boss have their portal open from the start
+export function portalOpen(boss: Boss | null): boolean {
+  return boss === null || boss.state === 'defeated'
+}
+
+export function updateBoss(
+  boss: Boss,
+  player: PlayerState,
+  enemies: Enemy[],
+  hazards: HazardPool,
+  tileSize: number,
+  fixedDeltaSeconds: number,
+  rng: Rng
+): BossEvent | null {
+  if (boss.state === 'defeated') return null
+  if (boss.hurtTimer > 0) boss.hurtTimer = Math.max(0, boss.hurtTimer - fixedDeltaSeconds)
+  const playerCenter = player.positionX + player.width / 2
+  const center = boss.x + boss.width / 2
+
+  if (boss.state === 'dormant') {
+    if (playerCenter < boss.arenaLeft + tileSize || playerCenter > boss.arenaRight) return null
+    boss.state = 'idle'
+    boss.timer = BOSS.phases[0].pause
+    return 'engage'
+  }
+
+  const phase = BOSS.phases[boss.phase]
+  boss.timer = Math.max(0, boss.timer - fixedDeltaSeconds)
+  switch (boss.state) {
+    case 'idle': {
+      // Pace toward the player, then wind up the next attack
+      boss.facing = playerCenter < center ? -1 : 1
+      boss.velocityX = Math.abs(playerCenter - center) > 24 ? boss.facing * phase.paceSpeed : 0
+      move(boss, fixedDeltaSeconds)
+      if (boss.timer === 0) {
+        boss.state = 'windup'
+        boss.timer = BOSS.windupTime
+        boss.velocityX = 0
+      }
+      return null
+    }
+    case 'windup': {
+      if (boss.timer > 0) return null
+      const attack = phase.attacks[boss.attackIndex % phase.attacks.length]
+      boss.attackIndex += 1
+      return startAttack(boss, attack, player, enemies, hazards, tileSize, rng)
+    }
+    case 'charging': {
+      if (move(boss, fixedDeltaSeconds) || boss.timer === 0) {
+        boss.state = 'recover'
+        boss.timer = BOSS.recoverTime
+        boss.velocityX = 0
+      }
+      return null
+    }
+    case 'recover':
+      if (boss.timer === 0) {
+        boss.state = 'idle'
+        boss.timer = phase.pause
+      }
+      return null
+  }
+  return null
+}
+
+function startAttack(
+  boss: Boss,
+  attack: BossAttack,
+  player: PlayerState,
+  enemies: Enemy[],
+  hazards: HazardPool,
+  tileSize: number,
+  rng: Rng
+): BossEvent | null {
+  const phase = BOSS.phases[boss.phase]
+  boss.state = 'idle'
+  boss.timer = phase.pause
+  const cx = boss.x + boss.width / 2
+  const cy = boss.y + boss.height / 2
+  switch (attack.kind) {
+    case 'volley': {
+      const aim = Math.atan2(player.positionY + player.height / 2 - cy, player.positionX + player.width / 2 - cx)
+      for (let i = 0; i < attack.count; i += 1) {
+        const angle = aim + (attack.count > 1 ? (i / (attack.count - 1) - 0.5) * attack.spread : 0)
+        spawnProjectile(hazards, cx, cy, Math.cos(angle) * attack.speed, Math.sin(angle) * attack.speed, SHOT_SIZE, SHOT_DAMAGE, SHOT_HUE)
+      }
+      return 'volley'
+    }
+    case 'charge':
+      boss.facing = player.positionX + player.width / 2 < cx ? -1 : 1
+      boss.velocityX = boss.facing * attack.speed
+      boss.state = 'charging'
+      // Never longer than a full crossing of the arena
+      boss.timer = (boss.arenaRight - boss.arenaLeft) / attack.speed
+      return 'charge'
+    case 'summon': {
+      let alive = 0
+      for (let i = 0; i < enemies.length; i += 1) {
+        const e = enemies[i]
+        if (e.alive && e.x + e.width > boss.arenaLeft && e.x < boss.arenaRight) alive += 1
+      }
+      if (alive >= attack.maxAlive) return null
+      const bossCol = Math.floor(cx / tileSize)
+      const minCol = Math.ceil(boss.arenaLeft / tileSize)
+      const maxCol = Math.floor(boss.arenaRight / tileSize) - 1
+      for (let i = 0; i < attack.types.length && alive < attack.maxAlive; i += 1) {
+        // Alternate sides, a little further out each time
+        const side = i % 2 === 0 ? -1 : 1
+        const col = Math.max(minCol, Math.min(maxCol, bossCol + side * (3 + Math.floor(i / 2) * 2)))
+        enemies.push(createEnemy({ col, row: boss.floorRow, type: attack.types[i] }, tileSize, rng))
+        alive += 1
+      }
+      return 'summon'
+    }
+  }
+}
+
+// Move horizontally inside the arena; true when an edge stopped it
+function move(boss: Boss, fixedDeltaSeconds: number): boolean {
+  const nextX = boss.x + boss.velocityX * fixedDeltaSeconds
+  if (nextX < boss.arenaLeft) {
+    boss.x = boss.arenaLeft
+    return true
+  }
+  if (nextX + boss.width > boss.arenaRight) {
+    boss.x = boss.arenaRight - boss.width
+    return true
+  }
+  boss.x = nextX
+  return false
+}
+
+export type BossDamageResult = 'ignored' | 'hurt' | 'phase' | 'defeated'
+
+export function damageBoss(boss: Boss, amount: number): BossDamageResult {
+  if (!bossEngaged(boss) || boss.hurtTimer > 0) return 'ignored'
+  boss.health = Math.max(0, boss.health - amount)
+  boss.hurtTimer = BOSS.hurtTime
+  if (boss.health === 0) {
+    boss.state = 'defeated'
+    boss.velocityX = 0
+    return 'defeated'
+  }
+  const share = boss.health / BOSS.maxHealth
+  let phase = boss.phase
+  while (phase + 1 < BOSS.phases.length && share <= BOSS.phases[phase + 1].fromHealth) phase += 1
+  if (phase !== boss.phase) {
+    boss.phase = phase
+    boss.attackIndex = 0
+    return 'phase'
+  }
+  return 'hurt'
+}
+
+export function overlapsBoss(boss: Boss, x: number, y: number, width: number, height: number): boolean {
+  return x < boss.x + boss.width && x + width > boss.x && y < boss.y + boss.height && y + height > boss.y
+}
+
+// Spells that touch the boss are used up (piercing ones too) and hurt it;
+// returns the strongest result for sounds
+export function resolveBossSpellHits(projectiles: Projectile[], boss: Boss): BossDamageResult {
+  let result: BossDamageResult = 'ignored'
+  if (!bossEngaged(boss)) return result
+  for (let i = 0; i < projectiles.length; i += 1) {
+    const p = projectiles[i]
+    if (!p.alive || !overlapsBoss(boss, p.x, p.y, p.width, p.height)) continue
+    p.alive = false
+    const hit = damageBoss(boss, BOSS.spellDamage)
+    if (hit !== 'ignored') result = hit
+    if (hit === 'defeated') break
+  }
+  return result
+}
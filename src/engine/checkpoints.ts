@@ -0,0 +1,94 @@
+import { cloneAbilitySet, type AbilitySet, type Pickup } from './abilities'
+import type { CheckpointSpec } from './level'
+import { PLAYER_HEIGHT, PLAYER_WIDTH, type Enemy, type Orb, type PlayerState } from './entities'
+
+// Checkpoints: touching one makes it the respawn point and snapshots the
+// world, so death and R-restart put everything back the way it was then.
+
+export type Checkpoint = {
+  x: number
+  y: number
+  width: number
+  height: number
+  active: boolean
+}
+
+const CHECKPOINT_HEIGHT = 48
+
+// World state captured when a checkpoint is reached
+export type WorldSnapshot = {
+  checkpointIndex: number
+  spawn: { x: number; y: number }
+  abilities: AbilitySet
+  orbsCollected: boolean[]
+  pickupsCollected: boolean[]
+  enemies: Enemy[]
+}
+
+// Occupies the full tile column so running past it always counts
+export function createCheckpoint(spec: CheckpointSpec, tileSize: number): Checkpoint {
+  return { x: spec.col * tileSize, y: spec.row * tileSize - CHECKPOINT_HEIGHT, width: tileSize, height: CHECKPOINT_HEIGHT, active: false }
+}
+
+// Index of an inactive checkpoint the player overlaps, or -1
+export function touchedCheckpoint(checkpoints: Checkpoint[], player: PlayerState): number {
+  for (let i = 0; i < checkpoints.length; i += 1) {
+    const c = checkpoints[i]
+    if (c.active) continue
+    if (
+      player.positionX < c.x + c.width &&
+      player.positionX + player.width > c.x &&
+      player.positionY < c.y + c.height &&
+      player.positionY + player.height > c.y
+    ) {
+      return i
+    }
+  }
+  return -1
+}
+
+export function captureWorld(
+  checkpoints: Checkpoint[],
+  index: number,
+  player: PlayerState,
+  orbs: Orb[],
+  enemies: Enemy[],
+  pickups: Pickup[] = []
+): WorldSnapshot {
+  const c = checkpoints[index]
+  return {
+    checkpointIndex: index,
+    // Stand the wizard on the checkpoint's base, centered
+    spawn: { x: c.x + (c.width - PLAYER_WIDTH) / 2, y: c.y + c.height - PLAYER_HEIGHT },
+    abilities: cloneAbilitySet(player.abilities),
+    orbsCollected: orbs.map((o) => o.collected),
+    pickupsCollected: pickups.map((p) => p.collected),
+    enemies: enemies.map((e) => ({ ...e })),
+  }
+}
+
+// Puts the world back as captured; enemies are restored in place so existing
+// references stay valid
+export function restoreWorld(
+  snapshot: WorldSnapshot,
+  checkpoints: Checkpoint[],
+  player: PlayerState,
+  orbs: Orb[],
+  enemies: Enemy[],
+  pickups: Pickup[] = []
+): void {
+  player.positionX = snapshot.spawn.x
+  player.positionY = snapshot.spawn.y
+  player.velocityX = 0
+  player.velocityY = 0
+  player.isOnGround = false
+  player.dropThroughTimer = 0
+  player.dashTimer = 0
+  player.abilities = cloneAbilitySet(snapshot.abilities)
+  for (let i = 0; i < orbs.length; i += 1) orbs[i].collected = snapshot.orbsCollected[i]
+  for (let i = 0; i < pickups.length; i += 1) pickups[i].collected = snapshot.pickupsCollected[i]
+  // Anything spawned since (boss minions) goes away
+  if (enemies.length > snapshot.enemies.length) enemies.length = snapshot.enemies.length
+  for (let i = 0; i < enemies.length; i += 1) Object.assign(enemies[i], snapshot.enemies[i])
+  for (let i = 0; i < checkpoints.length; i += 1) checkpoints[i].active = i === snapshot.checkpointIndex
+}
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest'
+import { parseAsciiLevel } from '../levels/asciiLevel'
+import { sweepRect, touchedTile } from './collision'
+import { T_BLOCK, T_GROUND, T_SPIKE, type Level } from './level'
+import { touchesSpike } from './physics'
+import { createWorld, createWorldInputs, stepWorld, TICK_SECONDS } from './world'
+
+// 32 px tiles; a 20×28 box, about the wizard's size. Each grid needs a spawn
+// (@) and a portal (|) to parse; they sit in the top row out of the way.
+const W = 20
+const H = 28
+// Far more than any body moves in a tick: hundreds of tiles in one step
+const FAR = 100000
+
+function levelFrom(rows: string[]): Level {
+  return parseAsciiLevel(rows.join('\n'), { name: 'test' }).level
+}
+
+describe('sweepRect at any speed', () => {
+  const wall = levelFrom([
+    '@..................|',
+    '..........=.........',
+    '..........=.........',
+    '####################',
+  ])
+
+  it('stops flush against a one-tile wall moving right', () => {
+    const hit = sweepRect(wall, 32, 2 * 32, W, H, FAR, 0)
+    expect(hit.x).toBe(10 * 32 - W)
+    expect(hit.y).toBe(2 * 32)
+    expect([hit.normalX, hit.normalY]).toEqual([-1, 0])
+    expect(hit.hitTile).toBe(T_BLOCK)
+    expect(hit.time).toBeLessThan(1)
+    expect(touchedTile(hit.touched, T_BLOCK)).toBe(true)
+  })
+
+  it('stops flush against the same wall moving left', () => {
+    const hit = sweepRect(wall, 18 * 32, 2 * 32, W, H, -FAR, 0)
+    expect(hit.x).toBe(11 * 32)
+    expect([hit.normalX, hit.normalY]).toEqual([1, 0])
+    expect(hit.hitTile).toBe(T_BLOCK)
+  })
+
+  it('lands on a one-tile floor with empty space under it', () => {
+    const floor = levelFrom([
+      '@....|',
+      '......',
+      '......',
+      '######',
+      '......',
+      '......',
+    ])
+    const hit = sweepRect(floor, 32, 0, W, H, 0, FAR)
+    expect(hit.y).toBe(3 * 32 - H)
+    expect([hit.normalX, hit.normalY]).toEqual([0, -1])
+    expect(hit.hitTile).toBe(T_GROUND)
+    expect(touchedTile(hit.touched, T_GROUND)).toBe(true)
+  })
+
+  it('stops under a one-tile ceiling moving up', () => {
+    const ceiling = levelFrom([
+      '@....|',
+      '######',
+      '......',
+      '......',
+      '......',
+    ])
+    const hit = sweepRect(ceiling, 32, 3 * 32, W, H, 0, -FAR)
+    expect(hit.y).toBe(2 * 32)
+    expect([hit.normalX, hit.normalY]).toEqual([0, 1])
+  })
+
+  it('reports a spike it passed through without stopping on it', () => {
+    const run = levelFrom([
+      '@..................|',
+      '.....^.............=',
+      '####################',
+    ])
+    const hit = sweepRect(run, 32, 32 + 4, W, H, FAR, 0)
+    // Spikes don't block; the wall at the far end does
+    expect(hit.x).toBe(19 * 32 - W)
+    expect(hit.normalX).toBe(-1)
+    expect(touchedTile(hit.touched, T_SPIKE)).toBe(true)
+  })
+
+  it('reports the spikes it lands among', () => {
+    const pit = levelFrom([
+      '@....|',
+      '......',
+      '......',
+      '.^^...',
+      '######',
+    ])
+    const hit = sweepRect(pit, 40, 0, W, H, 0, FAR)
+    expect(hit.y).toBe(4 * 32 - H)
+    expect([hit.normalX, hit.normalY]).toEqual([0, -1])
+    expect(hit.hitTile).toBe(T_GROUND)
+    expect(touchedTile(hit.touched, T_SPIKE)).toBe(true)
+  })
+})
+
+describe('the player at extreme speed', () => {
+  // One huge step: the player falls further than the whole level is tall
+  const HUGE_STEP = 5
+
+  it('lands on a one-tile floor instead of falling through it', () => {
+    const world = createWorld(parseAsciiLevel(['.@...|', '......', '......', '......', '......', '######', '......', '......'].join('\n')))
+    stepWorld(world, createWorldInputs(), HUGE_STEP)
+    expect(world.player.positionY + world.player.height).toBe(5 * 32)
+    expect(world.player.isOnGround).toBe(true)
+    expect(world.dead).toBe(false)
+  })
+
+  it('is stopped by a one-tile wall', () => {
+    const world = createWorld(parseAsciiLevel(['...........', '.@.....=..|', '###########'].join('\n')))
+    const inputs = { ...createWorldInputs(), moveRight: true, run: true }
+    // Settle on the ground first, then cover the whole level in one step
+    for (let i = 0; i < 30; i += 1) stepWorld(world, createWorldInputs(), TICK_SECONDS)
+    world.player.velocityX = FAR
+    stepWorld(world, inputs, HUGE_STEP)
+    expect(world.player.positionX + world.player.width).toBe(7 * 32)
+  })
+
+  it('still touches spikes it lands on', () => {
+    const world = createWorld(parseAsciiLevel(['.@...|', '......', '......', '......', '.^^...', '######'].join('\n')))
+    stepWorld(world, createWorldInputs(), HUGE_STEP)
+    expect(world.player.positionY + world.player.height).toBe(5 * 32)
+    expect(touchesSpike(world.player)).toBe(true)
+  })
+})
@@ -0,0 +1,310 @@
+import { T_EMPTY, T_ONEWAY, isSlopeTile, isSolidTile, isStandableTile, slopeHeights, type Level } from './level'
+
+// A body resting exactly on a one-way tile may sink this far in one step and
+// still count as having been above it
+const ONE_WAY_TOLERANCE = 0.01
+
+// Slopes are not part of the AABB pass: bodies walk on them by their feet
+// (bottom center). Sloped ground this far above or below the feet still
+// counts as underfoot, which covers a 45° slope at run speed and the step
+// where a slope meets a flat tile beside it.
+export const SLOPE_STEP = 12
+
+// Overlaps and gaps smaller than this count as flush, so rounding in
+// positions set from tile edges can't turn a touch into a hit
+const SKIN = 1e-6
+
+export type SweepResult = {
+  // Where the box ends up (top-left)
+  x: number
+  y: number
+  // Share of the move made before the first blocking contact (1 when nothing blocked)
+  time: number
+  // Face the box stopped against: -1 or 1 on the blocked axis (pointing back
+  // at the box), 0 otherwise
+  normalX: number
+  normalY: number
+  // Code of the tile it stopped against (T_EMPTY when nothing blocked)
+  hitTile: number
+  // Stopped by one-way tiles only
+  oneWayOnly: boolean
+  // Tile codes touched along the way, as a bit set (1 << code): every tile the
+  // moving box overlapped plus the one it stopped against
+  touched: number
+}
+
+// Moves a box by (dx, dy) through the tiles and stops it at the first solid
+// face it would cross (time of impact), so no speed can tunnel through a tile.
+// One-way tiles and the two trailing arguments work as in rectVsTiles. A box
+// that starts inside a solid tile (carried there by a platform) can't be
+// swept out of it and is pushed out along the moving axis instead.
+export function sweepRect(
+  level: Level,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  dx: number,
+  dy: number,
+  prevBottom = Infinity,
+  ignoreTopsBelow = Infinity
+): SweepResult {
+  const { tileSize, tiles } = level
+  const lastCol = tiles[0].length - 1
+  const lastRow = tiles.length - 1
+  // Broad phase: every tile the box could cross
+  const startTileX = Math.max(0, Math.floor(Math.min(x, x + dx) / tileSize))
+  const endTileX = Math.min(lastCol, Math.floor((Math.max(x, x + dx) + width) / tileSize))
+  const startTileY = Math.max(0, Math.floor(Math.min(y, y + dy) / tileSize))
+  const endTileY = Math.min(lastRow, Math.floor((Math.max(y, y + dy) + height) / tileSize))
+
+  let time = 1
+  let normalX = 0
+  let normalY = 0
+  let hitTile = T_EMPTY
+  let stopAt = 0 // position on the blocked axis
+  let hitSolid = false
+  let embeddedTile = T_EMPTY
+
+  for (let ty = startTileY; ty <= endTileY; ty += 1) {
+    for (let tx = startTileX; tx <= endTileX; tx += 1) {
+      const tile = tiles[ty][tx]
+      const tileLeft = tx * tileSize
+      const tileTop = ty * tileSize
+      const tileRight = tileLeft + tileSize
+      const tileBottom = tileTop + tileSize
+      if (tile === T_ONEWAY) {
+        // Only the top edge blocks, and only bodies moving down from above it
+        if (dy <= 0 || prevBottom > tileTop + ONE_WAY_TOLERANCE || y + height + dy <= tileTop) continue
+        const entry = Math.max(0, tileTop - (y + height)) / dy
+        const left = x + dx * entry
+        if (left + width <= tileLeft + SKIN || left >= tileRight - SKIN) continue
+        if (entry < time || (entry === time && !hitSolid && hitTile === T_EMPTY)) {
+          time = entry
+          normalX = 0
+          normalY = -1
+          hitTile = tile
+          stopAt = tileTop - height
+          hitSolid = false
+        }
+      } else if (isSolidTile(tile) && tileTop < ignoreTopsBelow) {
+        // Slab test: when the box starts and stops overlapping each axis
+        let entryX = -Infinity
+        let exitX = Infinity
+        if (dx > 0) {
+          entryX = (tileLeft - (x + width)) / dx
+          exitX = (tileRight - x) / dx
+        } else if (dx < 0) {
+          entryX = (tileRight - x) / dx
+          exitX = (tileLeft - (x + width)) / dx
+        } else if (x + width <= tileLeft + SKIN || x >= tileRight - SKIN) {
+          continue
+        }
+        let entryY = -Infinity
+        let exitY = Infinity
+        if (dy > 0) {
+          entryY = (tileTop - (y + height)) / dy
+          exitY = (tileBottom - y) / dy
+        } else if (dy < 0) {
+          entryY = (tileBottom - y) / dy
+          exitY = (tileTop - (y + height)) / dy
+        } else if (y + height <= tileTop + SKIN || y >= tileBottom - SKIN) {
+          continue
+        }
+        const entry = Math.max(entryX, entryY)
+        const exit = Math.min(exitX, exitY)
+        if (entry >= exit || entry > time) continue
+        // Leading edge already past the face: flush within SKIN is a contact
+        // at the start, anything deeper means the box began inside the tile
+        const gap = entryX > entryY ? entryX * Math.abs(dx) : entryY * Math.abs(dy)
+        if (entry < 0 && gap < -SKIN) {
+          embeddedTile = tile
+          continue
+        }
+        const t = Math.max(0, entry)
+        if (t < time || (t === time && !hitSolid)) {
+          time = t
+          hitTile = tile
+          hitSolid = true
+          if (entryX > entryY) {
+            normalX = dx > 0 ? -1 : 1
+            normalY = 0
+            stopAt = dx > 0 ? tileLeft - width : tileRight
+          } else {
+            normalX = 0
+            normalY = dy > 0 ? -1 : 1
+            stopAt = dy > 0 ? tileTop - height : tileBottom
+          }
+        }
+      }
+    }
+  }
+
+  let endX = normalX !== 0 ? stopAt : x + dx * time
+  let endY = normalY !== 0 ? stopAt : y + dy * time
+  if (embeddedTile !== T_EMPTY && normalX === 0 && normalY === 0) {
+    // Started inside a tile: resolve the overlap at the destination
+    const push = rectVsTiles(level, endX, endY, width, height, prevBottom, ignoreTopsBelow)
+    if (dy === 0 && push.correctionX !== 0) {
+      endX += push.correctionX
+      normalX = push.correctionX < 0 ? -1 : 1
+      hitTile = embeddedTile
+      hitSolid = true
+    } else if (dx === 0 && push.correctionY !== 0) {
+      endY += push.correctionY
+      normalY = push.correctionY < 0 ? -1 : 1
+      hitTile = embeddedTile
+      hitSolid = !push.oneWayOnly
+    }
+  }
+
+  // Everything the box overlapped between where it started and where it stopped
+  let touched = hitTile !== T_EMPTY ? 1 << hitTile : 0
+  const left = Math.min(x, endX)
+  const right = Math.max(x, endX) + width
+  const top = Math.min(y, endY)
+  const bottom = Math.max(y, endY) + height
+  const fromCol = Math.max(0, Math.floor((left + SKIN) / tileSize))
+  const toCol = Math.min(lastCol, Math.floor((right - SKIN) / tileSize))
+  const fromRow = Math.max(0, Math.floor((top + SKIN) / tileSize))
+  const toRow = Math.min(lastRow, Math.floor((bottom - SKIN) / tileSize))
+  for (let ty = fromRow; ty <= toRow; ty += 1) {
+    for (let tx = fromCol; tx <= toCol; tx += 1) touched |= 1 << tiles[ty][tx]
+  }
+
+  return {
+    x: endX,
+    y: endY,
+    time,
+    normalX,
+    normalY,
+    hitTile,
+    oneWayOnly: hitTile !== T_EMPTY && !hitSolid,
+    touched,
+  }
+}
+
+// Whether a sweep's (or a body's) touched set includes a tile code
+export function touchedTile(touched: number, tile: number): boolean {
+  return (touched & (1 << tile)) !== 0
+}
+
+// Overlap test for a box at rest: which solid tiles it overlaps and the
+// smallest push out of them
+export function rectVsTiles(
+  level: Level,
+  rectX: number,
+  rectY: number,
+  rectWidth: number,
+  rectHeight: number,
+  // Bottom edge before this move; one-way tiles only block bodies that were
+  // above them. Leave out for horizontal moves and when dropping through.
+  prevBottom = Infinity,
+  // Solid tiles whose top is at or below this line are skipped; bodies on a
+  // slope pass slopeIgnoreLine() so the tiles beside the slope can't snag them
+  ignoreTopsBelow = Infinity
+): { collided: boolean; correctionX: number; correctionY: number; oneWayOnly: boolean } {
+  // Axis-aligned collision resolution by sampling overlapped tiles
+  const { tileSize, tiles } = level
+  const startTileX = Math.max(0, Math.floor(rectX / tileSize))
+  const endTileX = Math.min(tiles[0].length - 1, Math.floor((rectX + rectWidth) / tileSize))
+  const startTileY = Math.max(0, Math.floor(rectY / tileSize))
+  const endTileY = Math.min(tiles.length - 1, Math.floor((rectY + rectHeight) / tileSize))
+
+  let collided = false
+  let correctionX = 0
+  let correctionY = 0
+  let hitSolid = false
+
+  for (let ty = startTileY; ty <= endTileY; ty += 1) {
+    for (let tx = startTileX; tx <= endTileX; tx += 1) {
+      const tile = tiles[ty][tx]
+      const tileLeft = tx * tileSize
+      const tileTop = ty * tileSize
+      if (tile === T_ONEWAY) {
+        // Only the top edge blocks, and only when arriving from above
+        const overlapX = Math.min(rectX + rectWidth, tileLeft + tileSize) - Math.max(rectX, tileLeft)
+        if (overlapX > 0 && prevBottom <= tileTop + ONE_WAY_TOLERANCE && rectY + rectHeight > tileTop) {
+          collided = true
+          correctionY = Math.min(correctionY, tileTop - (rectY + rectHeight))
+        }
+      } else if (isSolidTile(tile) && tileTop < ignoreTopsBelow) {
+        const tileRight = tileLeft + tileSize
+        const tileBottom = tileTop + tileSize
+
+        const overlapX = Math.min(rectX + rectWidth, tileRight) - Math.max(rectX, tileLeft)
+        const overlapY = Math.min(rectY + rectHeight, tileBottom) - Math.max(rectY, tileTop)
+        if (overlapX > 0 && overlapY > 0) {
+          collided = true
+          hitSolid = true
+          // Resolve minimal axis overlap
+          if (overlapX < overlapY) {
+            correctionX = rectX + rectWidth * 0.5 < tileLeft + tileSize * 0.5 ? -overlapX : overlapX
+          } else {
+            correctionY = rectY + rectHeight * 0.5 < tileTop + tileSize * 0.5 ? -overlapY : overlapY
+          }
+        }
+      }
+    }
+  }
+
+  return { collided, correctionX, correctionY, oneWayOnly: collided && !hitSolid }
+}
+
+// World y of the slope surface at px within tile row `row`, or null when that cell is not a slope
+export function slopeSurfaceAt(level: Level, px: number, row: number): number | null {
+  const { tileSize, tiles } = level
+  const col = Math.floor(px / tileSize)
+  if (row < 0 || row >= tiles.length || col < 0 || col >= tiles[0].length) return null
+  const tile = tiles[row][col]
+  if (!isSlopeTile(tile)) return null
+  const [left, right] = slopeHeights(tile)
+  const t = (px - col * tileSize) / tileSize
+  return (row + 1 - (left + (right - left) * t)) * tileSize
+}
+
+// Highest walkable surface under px between fromY and toY, or null. Slopes
+// always count; flat tops of solid and one-way tiles only with `includeFlat`.
+export function groundSurfaceBetween(level: Level, px: number, fromY: number, toY: number, includeFlat: boolean): number | null {
+  const { tileSize, tiles } = level
+  const col = Math.floor(px / tileSize)
+  if (col < 0 || col >= tiles[0].length) return null
+  const firstRow = Math.max(0, Math.floor(fromY / tileSize))
+  const lastRow = Math.min(tiles.length - 1, Math.floor(toY / tileSize))
+  for (let row = firstRow; row <= lastRow; row += 1) {
+    const tile = tiles[row][col]
+    let surface: number | null = null
+    if (isSlopeTile(tile)) surface = slopeSurfaceAt(level, px, row)
+    else if (includeFlat && isStandableTile(tile)) surface = row * tileSize
+    if (surface !== null && surface >= fromY && surface <= toY) return surface
+  }
+  return null
+}
+
+// ignoreTopsBelow for a body on a slope: at 45° the tile beside it rises up
+// to half the body's width above its feet
+export function slopeIgnoreLine(bottom: number, width: number): number {
+  return bottom - width / 2 - SLOPE_STEP
+}
+
+// Whether a grounded body's feet are on or right next to a slope
+export function isNearSlope(level: Level, footX: number, bottom: number): boolean {
+  return groundSurfaceBetween(level, footX, bottom - SLOPE_STEP, bottom + SLOPE_STEP, false) !== null
+}
+
+// Where the feet should rest after a move, or null to leave the body as is.
+// Rising bodies are never caught. `stick` keeps a body that was grounded on
+// the ground going downhill; `onSlope` also follows flat tiles the AABB pass
+// skipped (see rectVsTiles' ignoreTopsBelow).
+export function followSlope(
+  level: Level,
+  footX: number,
+  prevBottom: number,
+  bottom: number,
+  velocityY: number,
+  stick: boolean,
+  onSlope: boolean
+): number | null {
+  if (velocityY < 0) return null
+  return groundSurfaceBetween(level, footX, Math.min(prevBottom, bottom) - SLOPE_STEP, bottom + (stick ? SLOPE_STEP : 0), onSlope)
+}
@@ -0,0 +1,269 @@
+import { SLOPE_STEP, followSlope, groundSurfaceBetween, isNearSlope, slopeIgnoreLine, sweepRect } from './collision'
+import type { Level } from './level'
+import type { Enemy, PlayerState } from './entities'
+import { clamp, physicsConstants } from './physics'
+import { spawnProjectile, type HazardPool } from './hazards'
+import { landOnPlatforms, platformAt, type MovingPlatform } from './platforms'
+
+// Enemy types as data: each one pairs a movement behavior (with its own
+// parameters) with an optional ranged attack and a render style, so a new
+// Trickster or hyper-creature variant is one more entry in ENEMY_KINDS.
+
+export type EnemyBehavior =
+  // Walk back and forth, turning at walls and ledges
+  | { kind: 'patrol'; speed: number }
+  // Patrol until the player comes within `range` px, then walk at them (stopping at ledges)
+  | { kind: 'chase'; speed: number; patrolSpeed: number; range: number }
+  // Fly along a sine path `altitude` px above the spawn, turning at walls or `span` px from it
+  | { kind: 'hover'; speed: number; span: number; altitude: number; amplitude: number; frequency: number }
+  // Stand still and leap toward the player every `interval` s while within `range` px
+  | { kind: 'hop'; speedX: number; jumpSpeed: number; interval: number; range: number }
+  // Patrol, but edge toward the player (holding still at ledges) while within `range` px
+  | { kind: 'approach'; speed: number; range: number }
+
+// Fires a projectile (see hazards.ts) every `interval` s while the player is
+// within `range` px: straight ahead at about the same height, or `aimed` at them
+export type EnemyAttack = { interval: number; range: number; speed: number; aimed: boolean; hue: number }
+
+export type EnemyRenderStyle = {
+  shape: 'diamond' | 'starburst' | 'wisp'
+  hueShift: number // added to the cycling hue
+}
+
+export type EnemyKind = {
+  name: string
+  behavior: EnemyBehavior
+  attack: EnemyAttack | null
+  render: EnemyRenderStyle
+  width: number
+  height: number
+  damage: number // health taken on contact
+  ascii: string // marker in plain-text levels
+}
+
+export const ENEMY_KINDS = {
+  TRICK: {
+    name: 'Trickster',
+    behavior: { kind: 'patrol', speed: 70 },
+    attack: null,
+    render: { shape: 'diamond', hueShift: 0 },
+    width: 24,
+    height: 28,
+    damage: 1,
+    ascii: 't',
+  },
+  HYPER: {
+    name: 'Hyper',
+    behavior: { kind: 'patrol', speed: 70 },
+    attack: { interval: 2.4, range: 300, speed: 200, aimed: true, hue: 280 },
+    render: { shape: 'starburst', hueShift: 80 },
+    width: 24,
+    height: 28,
+    damage: 2,
+    ascii: 'h',
+  },
+  STALKER: {
+    name: 'Stalker',
+    behavior: { kind: 'chase', speed: 150, patrolSpeed: 60, range: 260 },
+    attack: null,
+    render: { shape: 'diamond', hueShift: 180 },
+    width: 24,
+    height: 28,
+    damage: 1,
+    ascii: 's',
+  },
+  HOPPER: {
+    name: 'Hopper',
+    behavior: { kind: 'hop', speedX: 170, jumpSpeed: -620, interval: 1.1, range: 320 },
+    attack: null,
+    render: { shape: 'diamond', hueShift: 90 },
+    width: 24,
+    height: 24,
+    damage: 1,
+    ascii: 'p',
+  },
+  WISP: {
+    name: 'Wisp',
+    behavior: { kind: 'hover', speed: 80, span: 128, altitude: 48, amplitude: 24, frequency: 1.5 },
+    attack: null,
+    render: { shape: 'wisp', hueShift: 200 },
+    width: 22,
+    height: 22,
+    damage: 1,
+    ascii: 'w',
+  },
+  SPITTER: {
+    name: 'Spitter',
+    behavior: { kind: 'approach', speed: 40, range: 360 },
+    attack: { interval: 1.6, range: 360, speed: 300, aimed: false, hue: 20 },
+    render: { shape: 'starburst', hueShift: 20 },
+    width: 24,
+    height: 28,
+    damage: 1,
+    ascii: 'x',
+  },
+} satisfies Record<string, EnemyKind>
+
+export type EnemyType = keyof typeof ENEMY_KINDS
+
+export const ENEMY_TYPES = Object.keys(ENEMY_KINDS) as EnemyType[]
+
+export function isEnemyType(value: unknown): value is EnemyType {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(ENEMY_KINDS, value)
+}
+
+export function enemyKind(type: EnemyType): EnemyKind {
+  return ENEMY_KINDS[type]
+}
+
+// Horizontal speed an enemy starts out with
+export function cruiseSpeed(behavior: EnemyBehavior): number {
+  switch (behavior.kind) {
+    case 'chase':
+      return behavior.patrolSpeed
+    case 'hop':
+      return 0
+    default:
+      return behavior.speed
+  }
+}
+
+const SHOT_SIZE = 10
+const SHOT_DAMAGE = 1
+
+// One step of an enemy's behavior, movement and attack; shots go into `hazards`
+export function updateEnemy(
+  level: Level,
+  e: Enemy,
+  player: PlayerState,
+  platforms: MovingPlatform[],
+  fixedDeltaSeconds: number,
+  hazards: HazardPool
+): void {
+  const kind = enemyKind(e.type)
+  e.phase += fixedDeltaSeconds * 2
+  const dx = player.positionX + player.width / 2 - (e.x + e.width / 2)
+  const dy = player.positionY + player.height / 2 - (e.y + e.height / 2)
+  move(level, e, kind.behavior, dx, dy, platforms, fixedDeltaSeconds)
+  const attack = kind.attack
+  if (attack === null) return
+  e.attackTimer = Math.max(0, e.attackTimer - fixedDeltaSeconds)
+  const inRange = attack.aimed ? dx * dx + dy * dy < attack.range * attack.range : Math.abs(dx) < attack.range && Math.abs(dy) < 96
+  if (!inRange || e.attackTimer > 0) return
+  const cx = e.x + e.width / 2
+  const cy = e.y + e.height / 2
+  if (attack.aimed) {
+    const d = Math.sqrt(dx * dx + dy * dy) || 1
+    spawnProjectile(hazards, cx, cy, (dx / d) * attack.speed, (dy / d) * attack.speed, SHOT_SIZE, SHOT_DAMAGE, attack.hue)
+  } else {
+    const dir = dx < 0 ? -1 : 1
+    spawnProjectile(hazards, cx + dir * (e.width + SHOT_SIZE) / 2, cy, dir * attack.speed, 0, SHOT_SIZE, SHOT_DAMAGE, attack.hue)
+  }
+  e.attackTimer = attack.interval
+}
+
+function move(
+  level: Level,
+  e: Enemy,
+  behavior: EnemyBehavior,
+  dx: number,
+  dy: number,
+  platforms: MovingPlatform[],
+  fixedDeltaSeconds: number
+): void {
+  const grounded = e.velocityY === 0
+  switch (behavior.kind) {
+    case 'patrol':
+      walk(level, e, platforms, fixedDeltaSeconds)
+      if (!groundAhead(level, e, platforms)) e.velocityX *= -1
+      return
+    case 'chase': {
+      const chasing = Math.abs(dx) < behavior.range && Math.abs(dy) < behavior.range / 2
+      if (chasing) {
+        e.velocityX = dx < 0 ? -behavior.speed : behavior.speed
+        if (grounded && !groundAhead(level, e, platforms)) e.velocityX = 0
+      } else if (Math.abs(e.velocityX) !== behavior.patrolSpeed) {
+        e.velocityX = e.velocityX < 0 ? -behavior.patrolSpeed : behavior.patrolSpeed
+      }
+      walk(level, e, platforms, fixedDeltaSeconds)
+      if (!chasing && !groundAhead(level, e, platforms)) e.velocityX *= -1
+      return
+    }
+    case 'hop':
+      if (grounded) {
+        e.velocityX = 0
+        e.timer = Math.max(0, e.timer - fixedDeltaSeconds)
+        if (e.timer === 0 && Math.abs(dx) < behavior.range) {
+          e.velocityX = dx < 0 ? -behavior.speedX : behavior.speedX
+          e.velocityY = behavior.jumpSpeed
+          e.timer = behavior.interval
+        }
+      }
+      walk(level, e, platforms, fixedDeltaSeconds)
+      return
+    case 'hover': {
+      // No gravity: drift sideways and bob around the anchor line
+      const hit = sweepRect(level, e.x, e.y, e.width, e.height, e.velocityX * fixedDeltaSeconds, 0)
+      if (hit.normalX !== 0 || Math.abs(hit.x - e.anchorX) > behavior.span) {
+        e.velocityX *= -1
+      } else {
+        e.x = hit.x
+      }
+      e.y = e.anchorY - behavior.altitude + Math.sin(e.phase * behavior.frequency) * behavior.amplitude
+      return
+    }
+    case 'approach': {
+      const inRange = Math.abs(dx) < behavior.range && Math.abs(dy) < 96
+      if (inRange) {
+        e.velocityX = dx < 0 ? -behavior.speed : behavior.speed
+        if (grounded && !groundAhead(level, e, platforms)) e.velocityX = 0
+      } else if (e.velocityX === 0) {
+        e.velocityX = behavior.speed
+      }
+      walk(level, e, platforms, fixedDeltaSeconds)
+      if (!inRange && !groundAhead(level, e, platforms)) e.velocityX *= -1
+      return
+    }
+  }
+}
+
+// Gravity plus axis-separated swept tile collision, turning around at walls.
+// Enemies walk slopes the same way the player does (see integratePlayer).
+function walk(level: Level, e: Enemy, platforms: MovingPlatform[], fixedDeltaSeconds: number): void {
+  const grounded = e.velocityY === 0
+  const onSlope = grounded && isNearSlope(level, e.x + e.width / 2, e.y + e.height)
+  const ignoreTopsBelow = onSlope ? slopeIgnoreLine(e.y + e.height, e.width) : Infinity
+  e.velocityY = clamp(e.velocityY + physicsConstants.gravity * fixedDeltaSeconds, -9999, physicsConstants.maxFallSpeed)
+  // Move X with collisions
+  const hitX = sweepRect(level, e.x, e.y, e.width, e.height, e.velocityX * fixedDeltaSeconds, 0, Infinity, ignoreTopsBelow)
+  e.x = hitX.x
+  if (hitX.normalX !== 0) e.velocityX *= -1
+  // Move Y with collisions (one-way tiles and platforms hold enemies up too)
+  const prevBottom = e.y + e.height
+  const nextY = e.y + e.velocityY * fixedDeltaSeconds
+  const hitY = sweepRect(level, e.x, e.y, e.width, e.height, 0, nextY - e.y, prevBottom, ignoreTopsBelow)
+  const slopeY = followSlope(level, e.x + e.width / 2, prevBottom, nextY + e.height, e.velocityY, grounded, onSlope)
+  if (slopeY !== null) {
+    e.y = slopeY - e.height
+    e.velocityY = 0
+  } else if (hitY.normalY !== 0) {
+    e.y = hitY.y
+    e.velocityY = 0
+  } else {
+    e.y = hitY.y
+    const top = landOnPlatforms(platforms, e.x, e.width, prevBottom, e.y + e.height)
+    if (top !== null) {
+      e.y = top - e.height
+      e.velocityY = 0
+    }
+  }
+}
+
+// Ground under the leading edge. The probe is half a body ahead of the feet,
+// so on a 45° slope the ground there is up to that much higher or lower.
+function groundAhead(level: Level, e: Enemy, platforms: MovingPlatform[]): boolean {
+  const aheadX = e.x + (e.velocityX > 0 ? e.width + 1 : -1)
+  const feetY = e.y + e.height
+  const reach = SLOPE_STEP + e.width / 2
+  return groundSurfaceBetween(level, aheadX, feetY - reach, feetY + reach, true) !== null || platformAt(platforms, aheadX, feetY + 1)
+}
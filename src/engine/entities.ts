@@ -0,0 +1,164 @@
+import { createAbilitySet, type AbilitySet } from './abilities'
+import { cruiseSpeed, enemyKind } from './enemies'
+import { healthConfig } from './health'
+import { isStandableTile, type EnemySpawn, type EnemyType, type Level, type OrbSpawn } from './level'
+import type { Rng } from './rng'
+
+export type PlayerState = {
+  positionX: number
+  positionY: number
+  velocityX: number
+  velocityY: number
+  width: number
+  height: number
+  isOnGround: boolean
+  // Standing on a one-way tile or moving platform (Down+Jump drops through)
+  onOneWay: boolean
+  // While > 0, one-way tiles and platforms are ignored
+  dropThroughTimer: number
+  // Last horizontal direction pressed; spells are cast this way
+  facing: 1 | -1
+  // Jump feel (see physicsConstants): Space state last step, time left to
+  // jump after leaving the ground, time a press waits for landing, and
+  // whether releasing Space should still cut the current jump
+  jumpHeld: boolean
+  coyoteTimer: number
+  jumpBufferTimer: number
+  jumpCutArmed: boolean
+  // Side of a wall the player pushed into last step (1 = right, -1 = left, 0 = none)
+  wallContact: -1 | 0 | 1
+  // Tile codes the body touched during the last step (bit set, see sweepRect)
+  touchedTiles: number
+  wallSliding: boolean
+  // While > 0, steering input is ignored after a wall jump
+  wallJumpLockTimer: number
+  // Dash (see physicsConstants): dash key state last step, time left in the
+  // burst and its direction. Whether it may fire lives in `abilities`.
+  dashHeld: boolean
+  dashTimer: number
+  dashCooldownTimer: number
+  dashDirX: number
+  dashDirY: number
+  // Flight, double jump, dash, spells (see abilities.ts)
+  abilities: AbilitySet
+  // Health (see health.ts) and seconds of flashing left after a hit
+  health: number
+  invulnerableTimer: number
+}
+
+// One sample of the player's trail; `kind` picks how it is drawn and `side`
+// is the wall side for wall slides
+export type TrailPoint = { x: number; y: number; kind: 'move' | 'wallSlide' | 'wallJump' | 'dash'; side: -1 | 0 | 1 }
+
+export type Orb = { x: number; y: number; radius: number; collected: boolean }
+export type Enemy = {
+  x: number
+  y: number
+  width: number
+  height: number
+  velocityX: number
+  velocityY: number
+  alive: boolean
+  phase: number
+  type: EnemyType
+  // Behavior state (see enemies.ts): countdown to the next hop and the spawn
+  // point hovering and patrol spans are measured from
+  timer: number
+  // Countdown to the next ranged attack
+  attackTimer: number
+  anchorX: number
+  anchorY: number
+}
+
+export const PLAYER_WIDTH = 20
+export const PLAYER_HEIGHT = 28
+const ORB_RADIUS = 10
+
+export function createPlayer(spawn: { x: number; y: number }): PlayerState {
+  return {
+    positionX: spawn.x,
+    positionY: spawn.y,
+    velocityX: 0,
+    velocityY: 0,
+    width: PLAYER_WIDTH,
+    height: PLAYER_HEIGHT,
+    isOnGround: false,
+    onOneWay: false,
+    dropThroughTimer: 0,
+    facing: 1,
+    jumpHeld: false,
+    coyoteTimer: 0,
+    jumpBufferTimer: 0,
+    jumpCutArmed: false,
+    wallContact: 0,
+    touchedTiles: 0,
+    wallSliding: false,
+    wallJumpLockTimer: 0,
+    dashHeld: false,
+    dashTimer: 0,
+    dashCooldownTimer: 0,
+    dashDirX: 0,
+    dashDirY: 0,
+    abilities: createAbilitySet(),
+    health: healthConfig.maxHealth,
+    invulnerableTimer: 0,
+  }
+}
+
+export function createOrb(spawn: OrbSpawn): Orb {
+  return { x: spawn.x, y: spawn.y, radius: ORB_RADIUS, collected: false }
+}
+
+// Starting direction and animation phase come from `rng`; the game passes its
+// seeded one so replays spawn enemies the same way
+export function createEnemy(spawn: EnemySpawn, tileSize: number, rng: Rng = Math.random): Enemy {
+  const kind = enemyKind(spawn.type)
+  const x = spawn.col * tileSize + (tileSize - kind.width) / 2
+  const y = spawn.row * tileSize - kind.height
+  const speed = cruiseSpeed(kind.behavior)
+  return {
+    x,
+    y,
+    width: kind.width,
+    height: kind.height,
+    velocityX: rng() < 0.5 ? -speed : speed,
+    velocityY: 0,
+    alive: true,
+    phase: rng() * Math.PI * 2,
+    type: spawn.type,
+    timer: 0,
+    attackTimer: 0,
+    anchorX: x,
+    anchorY: y,
+  }
+}
+
+// Snap each orb vertically so it sits within the player's height above the
+// nearest walkable surface directly beneath it. This guarantees coins are
+// always collectible while walking underneath them.
+export function snapOrbsToSurfaces(level: Level, orbs: { x: number; y: number }[], playerHeight: number): void {
+  const tileSize = level.tileSize
+  const rows = level.tiles.length
+  const cols = level.tiles[0].length
+  for (let i = 0; i < orbs.length; i += 1) {
+    const orb = orbs[i]
+    const col = Math.max(0, Math.min(cols - 1, Math.floor(orb.x / tileSize)))
+    // Start searching from the orb's row downward for the first surface (solid or one-way)
+    let startRow = Math.floor(orb.y / tileSize)
+    if (startRow < 0) startRow = 0
+    if (startRow >= rows) startRow = rows - 1
+    let surfaceTopY: number | null = null
+    for (let r = startRow; r < rows; r += 1) {
+      const isSurface = isStandableTile(level.tiles[r][col])
+      const aboveIsEmpty = r === 0 ? true : !isStandableTile(level.tiles[r - 1][col])
+      if (isSurface && aboveIsEmpty) {
+        surfaceTopY = r * tileSize
+        break
+      }
+    }
+    if (surfaceTopY !== null) {
+      // Position the orb at the player's center height relative to the surface
+      orb.y = surfaceTopY - playerHeight / 2
+    }
+  }
+}
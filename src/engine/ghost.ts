@@ -0,0 +1,84 @@
+import { runTicks, TICKS_PER_SECOND, type GameWorld } from './world'
+
+// Ghost racing: the wizard's path through the best completed run of a level,
+// one position per tick, played back next to the player on later attempts.
+
+export type GhostRun = {
+  // Ticks from the start of the run to reaching the portal
+  ticks: number
+  // x, y (top-left, whole px) for each of those ticks
+  path: number[]
+}
+
+export type GhostRecorder = { path: number[]; recording: boolean }
+
+export function createGhostRecorder(): GhostRecorder {
+  return { path: [], recording: false }
+}
+
+// Call after every step; returns the run on the tick the portal is reached.
+// A new run starts whenever the level does (see resetWorld).
+export function recordGhostTick(recorder: GhostRecorder, world: GameWorld): GhostRun | null {
+  const ticks = runTicks(world)
+  if (ticks === 1) {
+    recorder.path.length = 0
+    recorder.recording = true
+  }
+  if (!recorder.recording) return null
+  recorder.path.push(Math.round(world.player.positionX), Math.round(world.player.positionY))
+  if (!world.won) return null
+  recorder.recording = false
+  return { ticks, path: recorder.path.slice() }
+}
+
+export function isFasterRun(run: GhostRun, best: GhostRun | null): boolean {
+  return best === null || run.ticks < best.ticks
+}
+
+export type GhostPose = { x: number; y: number; facing: 1 | -1 }
+
+// A run ready to race: its pose for drawing, and how far right it had got by
+// each tick (for splits)
+export type GhostTrack = {
+  run: GhostRun
+  reach: number[]
+  pose: GhostPose
+}
+
+export function createGhostTrack(run: GhostRun): GhostTrack {
+  const reach: number[] = []
+  let furthest = -Infinity
+  for (let i = 0; i < run.ticks; i += 1) {
+    furthest = Math.max(furthest, run.path[i * 2])
+    reach.push(furthest)
+  }
+  return { run, reach, pose: { x: 0, y: 0, facing: 1 } }
+}
+
+// Where the ghost is `ticks` into its run, or null once it has reached the
+// portal. Facing follows its last horizontal move.
+export function ghostPose(track: GhostTrack, ticks: number): GhostPose | null {
+  if (ticks < 1 || ticks > track.run.ticks) return null
+  const path = track.run.path
+  const i = (ticks - 1) * 2
+  const pose = track.pose
+  if (i > 0 && path[i] !== path[i - 2]) pose.facing = path[i] > path[i - 2] ? 1 : -1
+  pose.x = path[i]
+  pose.y = path[i + 1]
+  return pose
+}
+
+// Seconds the player is behind (positive) or ahead of (negative) the ghost:
+// how much later than the ghost they got as far right as they are now
+export function ghostSplit(track: GhostTrack, ticks: number, playerX: number): number {
+  const reach = track.reach
+  let lo = 0
+  let hi = reach.length - 1
+  // First tick at which the ghost had got this far (its last tick if never)
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1
+    if (reach[mid] >= playerX) hi = mid
+    else lo = mid + 1
+  }
+  return (ticks - (lo + 1)) / TICKS_PER_SECOND
+}
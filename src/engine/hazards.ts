@@ -0,0 +1,263 @@
+import { rectVsTiles } from './collision'
+import { levelRows, type HazardSpec, type Level } from './level'
+import type { PlayerState } from './entities'
+import { hazardDamage } from './health'
+import { physicsConstants } from './physics'
+import { queryGrid, type SpatialGrid } from './spatialGrid'
+
+// Hazards: damaging things that move on their own. Projectiles are fired by
+// enemies and the boss; traps are placed by the level (spike traps that drop
+// when the player walks under them, fire bars spinning around a pivot).
+// Everything lives in one pool, so once it has grown to the level's working
+// size, firing and clearing allocate nothing.
+
+export type TrapKind = 'spikeTrap' | 'fireBar'
+
+export const TRAP_KINDS: readonly TrapKind[] = ['spikeTrap', 'fireBar']
+
+export function isTrapKind(value: unknown): value is TrapKind {
+  return TRAP_KINDS.includes(value as TrapKind)
+}
+
+export const hazardConfig = {
+  shotRange: 640, // px a projectile flies before fizzling
+  trapWidth: 24,
+  trapHeight: 24,
+  trapTriggerX: 40, // px either side of a spike trap the player's center sets it off
+  trapTriggerDepth: 320, // px below it
+  trapShakeTime: 0.35, // s of warning before it drops
+  trapRearmTime: 3, // s after shattering before it hangs back in place
+  fireBarLinks: 5, // fireballs per bar, not counting the pivot
+  fireBarSpacing: 16, // px between fireballs
+  fireBarRadius: 7,
+  fireBarSpeed: 1.6, // rad/s, clockwise
+}
+
+export type TrapState = 'armed' | 'shaking' | 'falling' | 'broken'
+
+// One shape for every kind so pooled objects can be reused for any of them
+export type Hazard = {
+  kind: 'projectile' | TrapKind
+  // Body for projectiles and spike traps; bounds of the whole sweep for fire bars
+  x: number
+  y: number
+  width: number
+  height: number
+  velocityX: number
+  velocityY: number
+  damage: number
+  hue: number
+  // Projectiles: distance flown, and used up (removed on the next update)
+  travelled: number
+  spent: boolean
+  // Spike traps
+  state: TrapState
+  timer: number
+  // Spike trap's hanging spot (top-left) or fire bar pivot (center)
+  anchorX: number
+  anchorY: number
+  // Fire bars
+  angle: number
+}
+
+// Live hazards are items[0..count); the rest are spares kept for reuse
+export type HazardPool = { items: Hazard[]; count: number }
+
+export function createHazardPool(): HazardPool {
+  return { items: [], count: 0 }
+}
+
+// Drop everything (the objects stay in the pool as spares)
+export function clearHazards(pool: HazardPool): void {
+  pool.count = 0
+}
+
+function acquire(pool: HazardPool, kind: Hazard['kind']): Hazard {
+  if (pool.count === pool.items.length) {
+    pool.items.push({
+      kind,
+      x: 0,
+      y: 0,
+      width: 0,
+      height: 0,
+      velocityX: 0,
+      velocityY: 0,
+      damage: 0,
+      hue: 0,
+      travelled: 0,
+      spent: false,
+      state: 'armed',
+      timer: 0,
+      anchorX: 0,
+      anchorY: 0,
+      angle: 0,
+    })
+  }
+  const h = pool.items[pool.count]
+  pool.count += 1
+  h.kind = kind
+  h.velocityX = 0
+  h.velocityY = 0
+  h.travelled = 0
+  h.spent = false
+  h.state = 'armed'
+  h.timer = 0
+  h.angle = 0
+  return h
+}
+
+// Swap with the last live hazard; callers walking the list go backwards
+function releaseAt(pool: HazardPool, index: number): void {
+  const last = pool.count - 1
+  if (index !== last) {
+    const h = pool.items[index]
+    pool.items[index] = pool.items[last]
+    pool.items[last] = h
+  }
+  pool.count = last
+}
+
+// A square shot centered on (centerX, centerY)
+export function spawnProjectile(
+  pool: HazardPool,
+  centerX: number,
+  centerY: number,
+  velocityX: number,
+  velocityY: number,
+  size: number,
+  damage: number,
+  hue: number
+): void {
+  const h = acquire(pool, 'projectile')
+  h.x = centerX - size / 2
+  h.y = centerY - size / 2
+  h.width = size
+  h.height = size
+  h.velocityX = velocityX
+  h.velocityY = velocityY
+  h.damage = damage
+  h.hue = hue
+}
+
+// The level's traps; spike traps hang from the top of their cell, fire bars
+// spin around the cell's center
+export function spawnTraps(pool: HazardPool, specs: HazardSpec[], tileSize: number): void {
+  for (let i = 0; i < specs.length; i += 1) {
+    const spec = specs[i]
+    const h = acquire(pool, spec.kind)
+    h.damage = hazardDamage[spec.kind]
+    if (spec.kind === 'spikeTrap') {
+      h.anchorX = spec.col * tileSize + (tileSize - hazardConfig.trapWidth) / 2
+      h.anchorY = spec.row * tileSize
+      h.x = h.anchorX
+      h.y = h.anchorY
+      h.width = hazardConfig.trapWidth
+      h.height = hazardConfig.trapHeight
+      h.hue = 0
+    } else {
+      const reach = hazardConfig.fireBarLinks * hazardConfig.fireBarSpacing + hazardConfig.fireBarRadius
+      h.anchorX = spec.col * tileSize + tileSize / 2
+      h.anchorY = spec.row * tileSize + tileSize / 2
+      h.x = h.anchorX - reach
+      h.y = h.anchorY - reach
+      h.width = reach * 2
+      h.height = reach * 2
+      h.hue = 25
+    }
+  }
+}
+
+export function updateHazards(level: Level, pool: HazardPool, player: PlayerState, fixedDeltaSeconds: number): void {
+  const worldBottom = levelRows(level) * level.tileSize
+  const playerCenterX = player.positionX + player.width / 2
+  for (let i = pool.count - 1; i >= 0; i -= 1) {
+    const h = pool.items[i]
+    switch (h.kind) {
+      case 'projectile': {
+        if (h.spent) {
+          releaseAt(pool, i)
+          continue
+        }
+        const stepX = h.velocityX * fixedDeltaSeconds
+        const stepY = h.velocityY * fixedDeltaSeconds
+        h.x += stepX
+        h.y += stepY
+        h.travelled += Math.abs(stepX) + Math.abs(stepY)
+        if (h.travelled >= hazardConfig.shotRange || rectVsTiles(level, h.x, h.y, h.width, h.height).collided) releaseAt(pool, i)
+        break
+      }
+      case 'spikeTrap':
+        h.timer = Math.max(0, h.timer - fixedDeltaSeconds)
+        if (h.state === 'armed') {
+          const below = player.positionY > h.y && player.positionY < h.y + hazardConfig.trapTriggerDepth
+          if (below && Math.abs(playerCenterX - (h.x + h.width / 2)) < hazardConfig.trapTriggerX) {
+            h.state = 'shaking'
+            h.timer = hazardConfig.trapShakeTime
+          }
+        } else if (h.state === 'shaking') {
+          if (h.timer === 0) h.state = 'falling'
+        } else if (h.state === 'falling') {
+          h.velocityY = Math.min(h.velocityY + physicsConstants.gravity * fixedDeltaSeconds, physicsConstants.maxFallSpeed)
+          h.y += h.velocityY * fixedDeltaSeconds
+          if (rectVsTiles(level, h.x, h.y, h.width, h.height).collided || h.y > worldBottom) {
+            h.state = 'broken'
+            h.timer = hazardConfig.trapRearmTime
+            h.velocityY = 0
+          }
+        } else if (h.timer === 0) {
+          h.state = 'armed'
+          h.x = h.anchorX
+          h.y = h.anchorY
+        }
+        break
+      case 'fireBar':
+        h.angle = (h.angle + hazardConfig.fireBarSpeed * fixedDeltaSeconds) % (Math.PI * 2)
+        break
+    }
+  }
+}
+
+// The first hazard touching the player, or null. Projectiles that hit are
+// used up; traps keep going. With an index of the pool (see spatialGrid.ts,
+// rebuilt since the last update) only hazards near the player are tested.
+export function hazardHittingPlayer(pool: HazardPool, player: PlayerState, grid: SpatialGrid | null = null): Hazard | null {
+  const left = player.positionX
+  const top = player.positionY
+  const right = left + player.width
+  const bottom = top + player.height
+  const near = grid ? queryGrid(grid, left, top, right, bottom) : null
+  const count = near ? near.length : pool.count
+  for (let k = 0; k < count; k += 1) {
+    const h = pool.items[near ? near[k] : k]
+    if (h.spent || (h.kind === 'spikeTrap' && h.state === 'broken')) continue
+    if (left >= h.x + h.width || right <= h.x || top >= h.y + h.height || bottom <= h.y) continue
+    if (h.kind === 'fireBar') {
+      if (fireBarTouches(h, left, top, right, bottom)) return h
+      continue
+    }
+    if (h.kind === 'projectile') h.spent = true
+    return h
+  }
+  return null
+}
+
+function fireBarTouches(h: Hazard, left: number, top: number, right: number, bottom: number): boolean {
+  const r = hazardConfig.fireBarRadius
+  const stepX = Math.cos(h.angle) * hazardConfig.fireBarSpacing
+  const stepY = Math.sin(h.angle) * hazardConfig.fireBarSpacing
+  // Fireball k sits k spacings out from the pivot
+  for (let k = 1; k <= hazardConfig.fireBarLinks; k += 1) {
+    const cx = h.anchorX + stepX * k
+    const cy = h.anchorY + stepY * k
+    // Closest point of the player's box to the fireball
+    const nx = cx < left ? left : cx > right ? right : cx
+    const ny = cy < top ? top : cy > bottom ? bottom : cy
+    if ((cx - nx) * (cx - nx) + (cy - ny) * (cy - ny) < r * r) return true
+  }
+  return false
+}
+
+// Where a hit comes from, for knockback
+export function hazardSourceX(h: Hazard): number {
+  return h.kind === 'fireBar' ? h.anchorX : h.x + h.width / 2
+}
@@ -0,0 +1,58 @@
+import type { PlayerState } from './entities'
+
+// Health, knockback and invulnerability. Hazards take a set amount of health;
+// running out costs a life, and running out of lives is game over.
+
+export const healthConfig = {
+  maxHealth: 3,
+  lives: 3,
+  invulnerableTime: 1.2, // s of flashing after a hit
+  knockbackX: 260, // px/s away from the hazard
+  knockbackY: -420, // px/s upward
+}
+
+export type HealthConfig = typeof healthConfig
+
+export type HazardKind = 'spike' | 'fall' | 'spikeTrap' | 'fireBar'
+
+// Health the level's own hazards take per hit (enemies and their shots carry
+// their own damage, see enemies.ts)
+export const hazardDamage: Record<HazardKind, number> = {
+  spike: 1,
+  fall: 1,
+  spikeTrap: 1,
+  fireBar: 1,
+}
+
+export type DamageResult = 'ignored' | 'hurt' | 'dead'
+
+// Take `damage` health and knock the player away from `sourceX` (world x of
+// the hazard's center). Hits during invulnerability are ignored.
+export function applyDamage(
+  player: PlayerState,
+  damage: number,
+  sourceX: number,
+  config: HealthConfig = healthConfig
+): DamageResult {
+  if (player.invulnerableTimer > 0 || player.health <= 0) return 'ignored'
+  player.health = Math.max(0, player.health - damage)
+  if (player.health === 0) return 'dead'
+  player.invulnerableTimer = config.invulnerableTime
+  const away = player.positionX + player.width / 2 < sourceX ? -1 : 1
+  player.velocityX = away * config.knockbackX
+  player.velocityY = config.knockbackY
+  player.isOnGround = false
+  player.dashTimer = 0
+  player.jumpCutArmed = false
+  return 'hurt'
+}
+
+export function tickInvulnerability(player: PlayerState, fixedDeltaSeconds: number): void {
+  if (player.invulnerableTimer > 0) player.invulnerableTimer = Math.max(0, player.invulnerableTimer - fixedDeltaSeconds)
+}
+
+// Full health, no flashing (respawns)
+export function healPlayer(player: PlayerState, config: HealthConfig = healthConfig): void {
+  player.health = config.maxHealth
+  player.invulnerableTimer = 0
+}
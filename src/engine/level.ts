@@ -0,0 +1,156 @@
+import type { AbilityId } from './abilities'
+import type { EnemyType } from './enemies'
+import type { TrapKind } from './hazards'
+
+// Level model shared by the game component, loaders and tools
+
+export type Level = {
+  tiles: number[][]
+  tileSize: number
+}
+
+// Tile codes and helpers
+export const T_EMPTY = 0
+export const T_GROUND = 1 // solid
+export const T_BLOCK = 2 // solid
+export const T_SPIKE = 3 // hurts
+export const T_FLAG = 4 // win portal (non-solid)
+export const T_ONEWAY = 5 // platform: solid from above only
+// Slopes, named by which way they rise when walking right. The 22.5° ones
+// come in pairs: LOW climbs the first half tile, HIGH the second.
+export const T_SLOPE_UP = 6 // 45°
+export const T_SLOPE_DOWN = 7 // 45°
+export const T_SLOPE_UP_LOW = 8 // 22.5°
+export const T_SLOPE_UP_HIGH = 9 // 22.5°
+export const T_SLOPE_DOWN_HIGH = 10 // 22.5°
+export const T_SLOPE_DOWN_LOW = 11 // 22.5°
+
+export const TILE_CODES: readonly number[] = [
+  T_EMPTY,
+  T_GROUND,
+  T_BLOCK,
+  T_SPIKE,
+  T_FLAG,
+  T_ONEWAY,
+  T_SLOPE_UP,
+  T_SLOPE_DOWN,
+  T_SLOPE_UP_LOW,
+  T_SLOPE_UP_HIGH,
+  T_SLOPE_DOWN_HIGH,
+  T_SLOPE_DOWN_LOW,
+]
+
+// Surface height at the left and right edge of each slope, as a fraction of the tile
+const SLOPE_HEIGHTS: Record<number, readonly [number, number]> = {
+  [T_SLOPE_UP]: [0, 1],
+  [T_SLOPE_DOWN]: [1, 0],
+  [T_SLOPE_UP_LOW]: [0, 0.5],
+  [T_SLOPE_UP_HIGH]: [0.5, 1],
+  [T_SLOPE_DOWN_HIGH]: [1, 0.5],
+  [T_SLOPE_DOWN_LOW]: [0.5, 0],
+}
+
+export function isSolidTile(tile: number): boolean {
+  return tile === T_GROUND || tile === T_BLOCK
+}
+
+export function isSlopeTile(tile: number): boolean {
+  return tile >= T_SLOPE_UP && tile <= T_SLOPE_DOWN_LOW
+}
+
+// [left, right] surface heights of a slope tile as fractions of the tile size
+export function slopeHeights(tile: number): readonly [number, number] {
+  return SLOPE_HEIGHTS[tile]
+}
+
+// Anything that can be stood on, including one-way platforms and slopes
+export function isStandableTile(tile: number): boolean {
+  return isSolidTile(tile) || tile === T_ONEWAY || isSlopeTile(tile)
+}
+
+export function levelRows(level: Level): number {
+  return level.tiles.length
+}
+
+export function levelCols(level: Level): number {
+  return level.tiles.length > 0 ? level.tiles[0].length : 0
+}
+
+// Tile lookup in world pixels; anything outside the grid reads as empty
+export function tileAt(level: Level, px: number, py: number): number {
+  const c = Math.floor(px / level.tileSize)
+  const r = Math.floor(py / level.tileSize)
+  if (r < 0 || r >= level.tiles.length || c < 0 || c >= level.tiles[0].length) return T_EMPTY
+  return level.tiles[r][c]
+}
+
+// Enemy types and their behaviors are defined in enemies.ts
+export type { EnemyType }
+
+// Entity placements as authored, before the game turns them into live objects
+export type OrbSpawn = { x: number; y: number }
+// Enemies stand on the top edge of tile row `row`, centered in column `col`
+export type EnemySpawn = { col: number; row: number; type: EnemyType }
+// Checkpoints stand on the top edge of tile row `row` in column `col`, like enemies
+export type CheckpointSpec = { col: number; row: number }
+// Moving platform: top-left starts at the top edge of tile (col, row) and
+// travels through `path` (same coordinates) and back again, `speed` in tiles/s
+export type PlatformSpec = { col: number; row: number; width: number; path: { col: number; row: number }[]; speed: number }
+// Ability pickup floating above the top edge of tile row `row` in column `col`
+export type PickupSpec = { col: number; row: number; ability: AbilityId }
+// Trap in tile (col, row): spike traps hang from the cell's top edge, fire
+// bars spin around its center (see hazards.ts)
+export type HazardSpec = { col: number; row: number; kind: TrapKind }
+// Boss standing on the top edge of tile row `row` in column `col`; it wakes
+// when the player enters the arena, columns `arenaFrom` to `arenaTo` inclusive
+export type BossSpec = { col: number; row: number; arenaFrom: number; arenaTo: number }
+
+// Arena reach either side of the boss for formats that only place the marker
+export const BOSS_ARENA_REACH = 12
+
+export function bossSpecAt(col: number, row: number, cols: number): BossSpec {
+  return { col, row, arenaFrom: Math.max(0, col - BOSS_ARENA_REACH), arenaTo: Math.min(cols - 1, col + BOSS_ARENA_REACH) }
+}
+// Portal column is stamped with T_FLAG from `row` upward for `height` tiles
+export type PortalSpec = { col: number; row: number; height: number }
+
+export type LevelDefinition = {
+  name: string
+  level: Level
+  spawn: { x: number; y: number }
+  orbs: OrbSpawn[]
+  enemies: EnemySpawn[]
+  checkpoints: CheckpointSpec[]
+  platforms: PlatformSpec[]
+  pickups: PickupSpec[]
+  hazards: HazardSpec[]
+  // The portal stays sealed until the boss is defeated
+  boss: BossSpec | null
+  portal: PortalSpec
+}
+
+export function stampPortal(level: Level, portal: PortalSpec): void {
+  for (let i = 0; i < portal.height; i += 1) {
+    const r = portal.row - i
+    if (r >= 0 && r < level.tiles.length && portal.col >= 0 && portal.col < levelCols(level)) {
+      level.tiles[r][portal.col] = T_FLAG
+    }
+  }
+}
+
+// Deep copy so a running game can mutate its level without touching the source definition
+export function cloneLevelDefinition(def: LevelDefinition): LevelDefinition {
+  return {
+    name: def.name,
+    level: { tileSize: def.level.tileSize, tiles: def.level.tiles.map((row) => row.slice()) },
+    spawn: { ...def.spawn },
+    orbs: def.orbs.map((o) => ({ ...o })),
+    enemies: def.enemies.map((e) => ({ ...e })),
+    checkpoints: def.checkpoints.map((c) => ({ ...c })),
+    platforms: def.platforms.map((p) => ({ ...p, path: p.path.map((w) => ({ ...w })) })),
+    pickups: def.pickups.map((p) => ({ ...p })),
+    hazards: def.hazards.map((h) => ({ ...h })),
+    boss: def.boss ? { ...def.boss } : null,
+    portal: { ...def.portal },
+  }
+}
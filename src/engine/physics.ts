@@ -0,0 +1,280 @@
+import { followSlope, isNearSlope, slopeIgnoreLine, sweepRect, touchedTile } from './collision'
+import { T_FLAG, T_SPIKE, type Level } from './level'
+import { hasAbility, spendCharge, tickAbilities } from './abilities'
+import type { PlayerState } from './entities'
+import { landOnPlatforms, type MovingPlatform } from './platforms'
+
+export const physicsConstants = {
+  gravity: 2200, // px/s^2
+  baseMoveSpeed: 240, // px/s
+  runMultiplier: 1.6,
+  jumpBase: -640, // px/s upward
+  jumpRunBoost: -140,
+  maxFallSpeed: 1200,
+  groundAcceleration: 2600,
+  airAcceleration: 1600,
+  frictionGround: 0.86,
+  frictionAir: 0.92,
+  // Jump feel
+  coyoteTime: 0.1, // s after leaving a ledge that a jump still counts
+  jumpBufferTime: 0.12, // s a jump press is remembered before landing
+  jumpCutMultiplier: 0.45, // upward speed kept when Space is released mid-jump
+  // Walls
+  wallSlideSpeed: 150, // px/s max fall speed while holding into a wall
+  wallJumpSpeedX: 300, // px/s away from the wall
+  wallJumpSpeedY: -620, // px/s upward
+  wallJumpLockTime: 0.14, // s of ignored steering after a wall jump, so holding into the wall still gets away from it
+  // Dash (once unlocked)
+  dashSpeed: 640, // px/s in the dash direction
+  dashTime: 0.15, // s the burst lasts, gravity off
+  dashCooldown: 0.35, // s before the next dash
+  dashEndSpeedScale: 0.45, // share of the dash speed kept when it ends
+  // Flight (once unlocked): holding Space thrusts upward against reduced gravity
+  flightThrust: -1650, // px/s^2 upward while held
+  flightGravityScale: 0.25, // share of gravity while thrusting
+  flightLiftOff: -420, // px/s upward when taking off from the ground
+  // Double jump (while the power-up lasts)
+  doubleJumpSpeed: -560, // px/s upward
+}
+
+export type PhysicsConstants = typeof physicsConstants
+
+// The subset of keyboard state that moves the player
+export type MovementInputs = {
+  moveLeft: boolean
+  moveRight: boolean
+  jump: boolean
+  run: boolean
+  up: boolean
+  down: boolean
+  dash: boolean
+}
+
+// How long one-way surfaces are ignored after Down+Jump
+const DROP_THROUGH_SECONDS = 0.2
+
+// Which impulse fired during a step
+export type MoveEvent = 'jump' | 'doubleJump' | 'wallJump' | 'dash'
+
+export function clamp(value: number, min: number, max: number): number {
+  if (value < min) return min
+  if (value > max) return max
+  return value
+}
+
+// One fixed step of player movement: input acceleration, jump/flight, gravity
+// and axis-separated swept tile collision (see sweepRect), so no speed can
+// skip a tile. Shared by the game loop and the level
+// tools so both agree on what the wizard can do. Returns which jump or dash
+// started this step (flight lift-off counts as 'jump'), or null. Platforms must already have
+// been updated (and the player carried) for this step.
+export function integratePlayer(
+  level: Level,
+  player: PlayerState,
+  inputs: MovementInputs,
+  fixedDeltaSeconds: number,
+  constants: PhysicsConstants = physicsConstants,
+  platforms: MovingPlatform[] = []
+): MoveEvent | null {
+  let jumped: MoveEvent | null = null
+  tickAbilities(player, fixedDeltaSeconds)
+
+  if (player.dropThroughTimer > 0) player.dropThroughTimer = Math.max(0, player.dropThroughTimer - fixedDeltaSeconds)
+  // Down+Jump on a one-way surface drops through it instead of jumping
+  if (inputs.down && inputs.jump && player.isOnGround && player.onOneWay) {
+    player.dropThroughTimer = DROP_THROUGH_SECONDS
+    player.isOnGround = false
+    player.onOneWay = false
+    player.coyoteTimer = 0
+    player.jumpBufferTimer = 0
+  }
+
+  // Coyote time and jump buffering work off the press, not the held key
+  const jumpPressed = inputs.jump && !player.jumpHeld
+  player.jumpHeld = inputs.jump
+  if (player.isOnGround) player.coyoteTimer = constants.coyoteTime
+  else if (player.coyoteTimer > 0) player.coyoteTimer = Math.max(0, player.coyoteTimer - fixedDeltaSeconds)
+  if (jumpPressed) player.jumpBufferTimer = constants.jumpBufferTime
+  else if (player.jumpBufferTimer > 0) player.jumpBufferTimer = Math.max(0, player.jumpBufferTimer - fixedDeltaSeconds)
+
+  // Horizontal input with acceleration
+  const running = inputs.run
+  const baseSpeed = constants.baseMoveSpeed * (running ? constants.runMultiplier : 1)
+  const targetVX = (inputs.moveLeft ? -baseSpeed : 0) + (inputs.moveRight ? baseSpeed : 0)
+  const accel = player.isOnGround ? constants.groundAcceleration : constants.airAcceleration
+  // Add small braking boost when changing direction to reduce sticky feel
+  const changingDir = Math.sign(targetVX) !== Math.sign(player.velocityX) && Math.abs(targetVX) > 0 && Math.abs(player.velocityX) > 0
+  const accelFactor = changingDir ? 1.35 : 1
+  if (inputs.moveLeft !== inputs.moveRight) player.facing = inputs.moveLeft ? -1 : 1
+  const dv = clamp(targetVX - player.velocityX, -accel * accelFactor * fixedDeltaSeconds, accel * accelFactor * fixedDeltaSeconds)
+  if (player.wallJumpLockTimer > 0) player.wallJumpLockTimer = Math.max(0, player.wallJumpLockTimer - fixedDeltaSeconds)
+  else player.velocityX += dv
+
+  // Jump / Flight
+  // Compute gravity after potential flight adjustment
+  let effectiveGravity = constants.gravity
+  if (hasAbility(player, 'flight')) {
+    if (inputs.jump && player.dropThroughTimer === 0) {
+      // Hold to fly: apply continuous upward thrust and reduce gravity while held
+      if (player.isOnGround) {
+        // Give a quick lift-off impulse when starting from ground
+        player.velocityY = Math.min(player.velocityY, constants.flightLiftOff)
+        player.isOnGround = false
+        jumped = 'jump'
+      }
+      player.velocityY += constants.flightThrust * fixedDeltaSeconds
+      effectiveGravity *= constants.flightGravityScale
+    }
+  } else if (player.jumpBufferTimer > 0 && player.dropThroughTimer === 0 && (player.isOnGround || player.coyoteTimer > 0)) {
+    player.velocityY = constants.jumpBase + (running ? constants.jumpRunBoost : 0)
+    player.isOnGround = false
+    player.coyoteTimer = 0
+    player.jumpBufferTimer = 0
+    player.jumpCutArmed = true
+    jumped = 'jump'
+  } else if (player.jumpBufferTimer > 0 && !player.isOnGround && player.wallContact !== 0) {
+    // Kick off the wall the player was pushing into last step
+    player.velocityX = -player.wallContact * constants.wallJumpSpeedX
+    player.velocityY = constants.wallJumpSpeedY
+    player.facing = player.wallContact > 0 ? -1 : 1
+    player.wallJumpLockTimer = constants.wallJumpLockTime
+    player.jumpBufferTimer = 0
+    player.jumpCutArmed = true
+    player.wallContact = 0
+    jumped = 'wallJump'
+  } else if (jumpPressed && !player.isOnGround && player.dropThroughTimer === 0 && spendCharge(player, 'doubleJump')) {
+    player.velocityY = constants.doubleJumpSpeed
+    player.jumpBufferTimer = 0
+    player.jumpCutArmed = true
+    jumped = 'doubleJump'
+  }
+
+  // Variable jump height: letting go of Space early cuts the rise short
+  if (player.jumpCutArmed) {
+    if (player.velocityY >= 0) {
+      player.jumpCutArmed = false
+    } else if (!inputs.jump) {
+      player.velocityY *= constants.jumpCutMultiplier
+      player.jumpCutArmed = false
+    }
+  }
+
+  // Gravity (adjusted by flight)
+  player.velocityY += effectiveGravity * fixedDeltaSeconds
+  player.velocityY = clamp(player.velocityY, -Infinity, constants.maxFallSpeed)
+
+  // Wall slide: holding into a wall caps the fall speed
+  const pushingIntoWall = player.wallContact !== 0 && (player.wallContact > 0 ? inputs.moveRight : inputs.moveLeft)
+  player.wallSliding = !player.isOnGround && pushingIntoWall && player.velocityY > 0
+  if (player.wallSliding && player.velocityY > constants.wallSlideSpeed) player.velocityY = constants.wallSlideSpeed
+
+  // Dash: a fixed-speed burst in the held direction (8-way, facing if none)
+  // that overrides steering, jumps and gravity. One per airtime (the dash
+  // ability's charge, refilled on landing).
+  if (player.dashCooldownTimer > 0) player.dashCooldownTimer = Math.max(0, player.dashCooldownTimer - fixedDeltaSeconds)
+  const dashPressed = inputs.dash && !player.dashHeld
+  player.dashHeld = inputs.dash
+  if (dashPressed && player.dashCooldownTimer === 0 && player.dashTimer === 0 && spendCharge(player, 'dash')) {
+    let dirX = (inputs.moveRight ? 1 : 0) - (inputs.moveLeft ? 1 : 0)
+    const dirY = (inputs.down ? 1 : 0) - (inputs.up ? 1 : 0)
+    if (dirX === 0 && dirY === 0) dirX = player.facing
+    const length = Math.sqrt(dirX * dirX + dirY * dirY)
+    player.dashDirX = dirX / length
+    player.dashDirY = dirY / length
+    player.dashTimer = constants.dashTime
+    player.dashCooldownTimer = constants.dashCooldown
+    player.jumpCutArmed = false
+    jumped = 'dash'
+  }
+  if (player.dashTimer > 0) {
+    player.dashTimer = Math.max(0, player.dashTimer - fixedDeltaSeconds)
+    const speed = player.dashTimer > 0 ? constants.dashSpeed : constants.dashSpeed * constants.dashEndSpeedScale
+    player.velocityX = player.dashDirX * speed
+    player.velocityY = player.dashDirY * speed
+  }
+
+  // On a slope the feet follow the surface under the player's center, so the
+  // tiles beside it must not snag the lowest few pixels of the body
+  const wasOnGround = player.isOnGround
+  const onSlope = wasOnGround && isNearSlope(level, player.positionX + player.width / 2, player.positionY + player.height)
+  const ignoreTopsBelow = onSlope ? slopeIgnoreLine(player.positionY + player.height, player.width) : Infinity
+
+  // Sweep along X
+  const resultX = sweepRect(level, player.positionX, player.positionY, player.width, player.height, player.velocityX * fixedDeltaSeconds, 0, Infinity, ignoreTopsBelow)
+  player.positionX = resultX.x
+  if (resultX.normalX !== 0) {
+    player.velocityX = 0
+    // A face pointing left means the wall is on the right
+    player.wallContact = resultX.normalX < 0 ? 1 : -1
+  } else {
+    player.wallContact = 0
+  }
+
+  // Sweep along Y
+  const dropping = player.dropThroughTimer > 0
+  const prevBottom = player.positionY + player.height
+  const resultY = sweepRect(level, player.positionX, player.positionY, player.width, player.height, 0, player.velocityY * fixedDeltaSeconds, dropping ? Infinity : prevBottom, ignoreTopsBelow)
+  player.positionY = resultY.y
+  player.touchedTiles = resultX.touched | resultY.touched
+  player.onOneWay = false
+  if (resultY.normalY !== 0) {
+    // Stopped by a floor: landed
+    if (resultY.normalY < 0) {
+      player.isOnGround = true
+      player.onOneWay = resultY.oneWayOnly
+    }
+    player.velocityY = 0
+  } else {
+    // While flying, don't glue to ground just because Space is held; keep in air until actual collision
+    player.isOnGround = false
+  }
+  const slopeY = dropping
+    ? null
+    : followSlope(level, player.positionX + player.width / 2, prevBottom, player.positionY + player.height, player.velocityY, wasOnGround, onSlope)
+  if (slopeY !== null) {
+    player.positionY = slopeY - player.height
+    player.velocityY = 0
+    player.isOnGround = true
+    player.onOneWay = false
+  }
+  if (!player.isOnGround && !dropping && platforms.length > 0) {
+    const top = landOnPlatforms(platforms, player.positionX, player.width, prevBottom, player.positionY + player.height)
+    if (top !== null) {
+      player.positionY = top - player.height
+      player.velocityY = 0
+      player.isOnGround = true
+      player.onOneWay = true
+    }
+  }
+
+  // Invisible world boundaries (keep player in-bounds left/right/top)
+  const worldWidth = level.tiles[0].length * level.tileSize
+  if (player.positionX < 0) {
+    player.positionX = 0
+    player.velocityX = 0
+  }
+  if (player.positionX > worldWidth - player.width) {
+    player.positionX = worldWidth - player.width
+    player.velocityX = 0
+  }
+  if (player.positionY < 0) {
+    player.positionY = 0
+    player.velocityY = 0
+  }
+
+  return jumped
+}
+
+export function fellOutOfWorld(level: Level, player: PlayerState): boolean {
+  const worldHeight = level.tiles.length * level.tileSize
+  return player.positionY > worldHeight + 200
+}
+
+// Contact with spikes or the portal anywhere along the last step's path
+export function touchesSpike(player: PlayerState): boolean {
+  return touchedTile(player.touchedTiles, T_SPIKE)
+}
+
+export function touchesPortal(player: PlayerState): boolean {
+  return touchedTile(player.touchedTiles, T_FLAG)
+}
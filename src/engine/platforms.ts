@@ -0,0 +1,111 @@
+import type { PlatformSpec } from './level'
+
+// Moving platforms. They are one-way like T_ONEWAY tiles: you land on top and
+// can jump up through them. Anything standing on one is carried along.
+
+export type MovingPlatform = {
+  x: number
+  y: number
+  width: number
+  height: number
+  // Top-left positions in pixels, visited back and forth
+  waypoints: { x: number; y: number }[]
+  target: number
+  direction: 1 | -1
+  speed: number // px/s
+  // Movement during the last update, used to carry riders
+  dx: number
+  dy: number
+}
+
+const PLATFORM_THICKNESS = 12
+// How far a rider's feet may be from the top and still count as standing on it
+const RIDE_TOLERANCE = 2
+
+export function createPlatform(spec: PlatformSpec, tileSize: number): MovingPlatform {
+  const start = { x: spec.col * tileSize, y: spec.row * tileSize }
+  const waypoints = [start, ...spec.path.map((p) => ({ x: p.col * tileSize, y: p.row * tileSize }))]
+  return {
+    x: start.x,
+    y: start.y,
+    width: spec.width * tileSize,
+    height: PLATFORM_THICKNESS,
+    waypoints,
+    target: waypoints.length > 1 ? 1 : 0,
+    direction: 1,
+    speed: spec.speed * tileSize,
+    dx: 0,
+    dy: 0,
+  }
+}
+
+export function updatePlatforms(platforms: MovingPlatform[], fixedDeltaSeconds: number): void {
+  for (let i = 0; i < platforms.length; i += 1) {
+    const p = platforms[i]
+    const startX = p.x
+    const startY = p.y
+    let budget = p.speed * fixedDeltaSeconds
+    // Spend the step's travel distance, turning at waypoints as needed (bounded
+    // so a path of identical waypoints cannot spin forever)
+    for (let turns = 0; budget > 0 && p.waypoints.length > 1 && turns <= p.waypoints.length * 2; turns += 1) {
+      const goal = p.waypoints[p.target]
+      const ex = goal.x - p.x
+      const ey = goal.y - p.y
+      const dist = Math.sqrt(ex * ex + ey * ey)
+      if (dist <= budget) {
+        p.x = goal.x
+        p.y = goal.y
+        budget -= dist
+        if (p.target + p.direction < 0 || p.target + p.direction >= p.waypoints.length) p.direction = p.direction === 1 ? -1 : 1
+        p.target += p.direction
+      } else {
+        p.x += (ex / dist) * budget
+        p.y += (ey / dist) * budget
+        budget = 0
+      }
+    }
+    p.dx = p.x - startX
+    p.dy = p.y - startY
+  }
+}
+
+// Platform the body was standing on before this step's update, or -1
+export function platformUnder(platforms: MovingPlatform[], x: number, width: number, bottom: number): number {
+  for (let i = 0; i < platforms.length; i += 1) {
+    const p = platforms[i]
+    const prevTop = p.y - p.dy
+    const prevX = p.x - p.dx
+    if (x < prevX + p.width && x + width > prevX && Math.abs(bottom - prevTop) <= RIDE_TOLERANCE) return i
+  }
+  return -1
+}
+
+// Top of the platform a falling body lands on this step, or null.
+// `prevBottom` is the body's bottom edge before it moved.
+export function landOnPlatforms(
+  platforms: MovingPlatform[],
+  x: number,
+  width: number,
+  prevBottom: number,
+  bottom: number
+): number | null {
+  let landedTop: number | null = null
+  for (let i = 0; i < platforms.length; i += 1) {
+    const p = platforms[i]
+    if (x >= p.x + p.width || x + width <= p.x) continue
+    // Was above the platform's previous top and has now reached its current top
+    if (prevBottom <= p.y - p.dy + RIDE_TOLERANCE && bottom >= p.y) {
+      if (landedTop === null || p.y < landedTop) landedTop = p.y
+    }
+  }
+  return landedTop
+}
+
+// Whether a world point lies on a platform's top surface (used for enemy edge checks)
+export function platformAt(platforms: MovingPlatform[], px: number, py: number): boolean {
+  for (let i = 0; i < platforms.length; i += 1) {
+    const p = platforms[i]
+    if (px >= p.x && px < p.x + p.width && py >= p.y && py < p.y + p.height) return true
+  }
+  return false
+}
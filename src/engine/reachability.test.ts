@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import { parseAsciiLevel } from '../levels/asciiLevel'
+import type { LevelDefinition } from './level'
+import { analyzeReachability, describeReachability } from './reachability'
+
+// Small grids in the ASCII level format (see asciiLevel.ts); 32 px tiles
+
+function levelFrom(rows: string[]): LevelDefinition {
+  return parseAsciiLevel(rows.join('\n'), { name: 'test' })
+}
+
+describe('reachability', () => {
+  it('finds nothing wrong with a flat walk to the portal', () => {
+    const def = levelFrom([
+      '............',
+      '............',
+      '.@...o..t..|',
+      '############',
+    ])
+    const report = analyzeReachability(def)
+    expect(report.walking.portalReachable).toBe(true)
+    expect(report.walking.unreachableOrbs).toEqual([])
+    expect(report.walking.unreachableEnemies).toEqual([])
+    expect(describeReachability(def, report)).toEqual([])
+  })
+
+  it('flags an orb on a ledge far overhead as needing flight', () => {
+    // Orbs settle onto the surface below them, hence the ledge
+    const def = levelFrom([
+      '............',
+      '......o.....',
+      '.....===....',
+      '............',
+      '............',
+      '............',
+      '............',
+      '............',
+      '............',
+      '.@.........|',
+      '############',
+    ])
+    const report = analyzeReachability(def)
+    expect(report.walking.unreachableOrbs).toEqual([0])
+    expect(report.flying.unreachableOrbs).toEqual([])
+    expect(describeReachability(def, report)).toEqual(['orb #0 at col 6, row 1 needs flight'])
+  })
+
+  it('reports a portal walled in on every side as unreachable', () => {
+    const def = levelFrom([
+      '.........===',
+      '.........=.=',
+      '.@.......=|=',
+      '############',
+    ])
+    const report = analyzeReachability(def)
+    expect(report.walking.portalReachable).toBe(false)
+    expect(report.flying.portalReachable).toBe(false)
+    expect(describeReachability(def, report)).toContain('No path to the portal, even with flight')
+  })
+
+  it('reports a gap too wide to jump', () => {
+    const def = levelFrom([
+      '.......................',
+      '.......................',
+      '.@...................|.',
+      '#######.........#######',
+    ])
+    const report = analyzeReachability(def)
+    expect(report.walking.portalReachable).toBe(false)
+    expect(report.walking.impossibleGaps).toContainEqual({ from: { col: 6, row: 2 }, to: { col: 16, row: 2 }, width: 9 })
+    expect(describeReachability(def, report)).toContain('Impossible 9-tile gap from col 6, row 2 to col 16, row 2')
+  })
+
+  it('lets a jumpable gap through', () => {
+    const def = levelFrom([
+      '...............',
+      '...............',
+      '.@...........|.',
+      '#######..######',
+    ])
+    const report = analyzeReachability(def)
+    expect(report.walking.portalReachable).toBe(true)
+    expect(report.walking.impossibleGaps).toEqual([])
+  })
+})
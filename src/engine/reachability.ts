@@ -0,0 +1,194 @@
+import { T_FLAG, levelCols, levelRows, type Level, type LevelDefinition } from './level'
+import { PLAYER_HEIGHT, createOrb, snapOrbsToSurfaces, type PlayerState } from './entities'
+import { physicsConstants, type PhysicsConstants } from './physics'
+import { exploreLevel, isStandCell, type Cell } from './traversal'
+
+// Which parts of a level the player can actually get to from spawn, found by
+// replaying jump arcs through the real integrator (see traversal.ts). Runs
+// once on foot and once with flight, since flight only unlocks mid-level.
+
+// How far past a dead end to look for the surface the player was meant to reach
+const GAP_SCAN_COLS = 10
+const GAP_SCAN_ROWS = 6
+// Same pickup distance as the game loop
+const ORB_PICKUP_PADDING = 12
+
+export type ImpossibleGap = {
+  // Last reachable stand cell before the gap
+  from: Cell
+  // Nearest unreachable stand cell on the far side
+  to: Cell
+  // Open columns between the two (0 means a ledge that is too high)
+  width: number
+}
+
+export type ReachabilityPass = {
+  canFly: boolean
+  start: Cell | null
+  portalReachable: boolean
+  // touched[row][col]: the player's body overlapped this tile at some point
+  touched: boolean[][]
+  // Indices into the definition's orbs / enemies
+  unreachableOrbs: number[]
+  unreachableEnemies: number[]
+  impossibleGaps: ImpossibleGap[]
+}
+
+export type ReachabilityReport = {
+  walking: ReachabilityPass
+  flying: ReachabilityPass
+}
+
+function markTouched(level: Level, touched: boolean[][], player: PlayerState): void {
+  const ts = level.tileSize
+  const c0 = Math.max(0, Math.floor(player.positionX / ts))
+  const c1 = Math.min(levelCols(level) - 1, Math.floor((player.positionX + player.width - 1) / ts))
+  const r0 = Math.max(0, Math.floor(player.positionY / ts))
+  const r1 = Math.min(levelRows(level) - 1, Math.floor((player.positionY + player.height - 1) / ts))
+  for (let r = r0; r <= r1; r += 1) {
+    for (let c = c0; c <= c1; c += 1) touched[r][c] = true
+  }
+}
+
+function findImpossibleGaps(level: Level, reachable: boolean[][]): ImpossibleGap[] {
+  const rows = levelRows(level)
+  const cols = levelCols(level)
+  const gaps: ImpossibleGap[] = []
+  const seen = new Set<string>()
+  for (let row = 0; row < rows; row += 1) {
+    for (let col = 0; col < cols; col += 1) {
+      if (!reachable[row][col]) continue
+      for (const dir of [-1, 1]) {
+        // Only dead ends: the surface stops here
+        if (isStandCell(level, col + dir, row)) continue
+        for (let k = 1; k <= GAP_SCAN_COLS; k += 1) {
+          const c = col + dir * k
+          if (c < 0 || c >= cols) break
+          let target: Cell | null = null
+          let anyReachable = false
+          for (let r = Math.max(0, row - GAP_SCAN_ROWS); r <= Math.min(rows - 1, row + GAP_SCAN_ROWS); r += 1) {
+            // Portal cells end the search on touch, so they never show up as reached
+            if (!isStandCell(level, c, r) || level.tiles[r][c] === T_FLAG) continue
+            if (reachable[r][c]) anyReachable = true
+            else if (!target || Math.abs(r - row) < Math.abs(target.row - row)) target = { col: c, row: r }
+          }
+          if (anyReachable) break
+          if (!target) continue
+          const key = `${col},${row}>${target.col},${target.row}`
+          if (!seen.has(key)) {
+            seen.add(key)
+            gaps.push({ from: { col, row }, to: target, width: k - 1 })
+          }
+          break
+        }
+      }
+    }
+  }
+  return gaps
+}
+
+function analyzePass(def: LevelDefinition, constants: PhysicsConstants, canFly: boolean): ReachabilityPass {
+  const level = def.level
+  const ts = level.tileSize
+  const rows = levelRows(level)
+  const cols = levelCols(level)
+  const touched: boolean[][] = Array.from({ length: rows }, () => new Array(cols).fill(false))
+
+  // Orbs where the game will put them, bucketed by tile for cheap per-step lookups
+  const orbs = def.orbs.map(createOrb)
+  snapOrbsToSurfaces(level, orbs, PLAYER_HEIGHT)
+  const orbsByTile = new Map<number, number[]>()
+  for (let i = 0; i < orbs.length; i += 1) {
+    const key = Math.floor(orbs[i].y / ts) * cols + Math.floor(orbs[i].x / ts)
+    const bucket = orbsByTile.get(key)
+    if (bucket) bucket.push(i)
+    else orbsByTile.set(key, [i])
+  }
+
+  const onStep = (player: PlayerState) => {
+    markTouched(level, touched, player)
+    const cx = player.positionX + player.width / 2
+    const cy = player.positionY + player.height / 2
+    const col = Math.floor(cx / ts)
+    const row = Math.floor(cy / ts)
+    for (let r = row - 1; r <= row + 1; r += 1) {
+      for (let c = col - 1; c <= col + 1; c += 1) {
+        const bucket = orbsByTile.get(r * cols + c)
+        if (!bucket) continue
+        for (let j = 0; j < bucket.length; j += 1) {
+          const orb = orbs[bucket[j]]
+          if (orb.collected) continue
+          const dx = cx - orb.x
+          const dy = cy - orb.y
+          const reach = orb.radius + ORB_PICKUP_PADDING
+          if (dx * dx + dy * dy < reach * reach) orb.collected = true
+        }
+      }
+    }
+  }
+
+  const result = exploreLevel(def, { constants, canFly, onStep })
+  // Walking between neighbouring cells is not simulated, so count those too
+  for (let r = 0; r < rows; r += 1) {
+    for (let c = 0; c < cols; c += 1) {
+      if (!result.reachable[r][c]) continue
+      touched[r][c] = true
+      const bucket = orbsByTile.get(r * cols + c)
+      if (bucket) for (const i of bucket) orbs[i].collected = true
+    }
+  }
+
+  const unreachableOrbs: number[] = []
+  for (let i = 0; i < orbs.length; i += 1) {
+    if (!orbs[i].collected) unreachableOrbs.push(i)
+  }
+  // A foe counts as reachable when the player can get into the tile it stands in
+  const unreachableEnemies: number[] = []
+  def.enemies.forEach((e, i) => {
+    const row = e.row - 1
+    if (row < 0 || row >= rows || e.col < 0 || e.col >= cols || !touched[row][e.col]) unreachableEnemies.push(i)
+  })
+
+  return {
+    canFly,
+    start: result.start,
+    portalReachable: result.portalReached,
+    touched,
+    unreachableOrbs,
+    unreachableEnemies,
+    impossibleGaps: findImpossibleGaps(level, result.reachable),
+  }
+}
+
+export function analyzeReachability(def: LevelDefinition, constants: PhysicsConstants = physicsConstants): ReachabilityReport {
+  return {
+    walking: analyzePass(def, constants, false),
+    flying: analyzePass(def, constants, true),
+  }
+}
+
+// Human-readable findings, one per line; empty when the level is clean
+export function describeReachability(def: LevelDefinition, report: ReachabilityReport): string[] {
+  const { walking, flying } = report
+  const lines: string[] = []
+  if (!walking.start) lines.push('Spawn does not settle on solid ground')
+  if (!flying.portalReachable) lines.push('No path to the portal, even with flight')
+  else if (!walking.portalReachable) lines.push('Portal is only reachable with flight')
+
+  const ts = def.level.tileSize
+  for (const i of walking.unreachableOrbs) {
+    const orb = def.orbs[i]
+    const where = `orb #${i} at col ${Math.floor(orb.x / ts)}, row ${Math.floor(orb.y / ts)}`
+    lines.push(flying.unreachableOrbs.includes(i) ? `Unreachable ${where}` : `${where} needs flight`)
+  }
+  for (const i of walking.unreachableEnemies) {
+    const e = def.enemies[i]
+    const where = `${e.type} foe #${i} at col ${e.col}, row ${e.row}`
+    lines.push(flying.unreachableEnemies.includes(i) ? `Unreachable ${where}` : `${where} needs flight`)
+  }
+  for (const gap of walking.impossibleGaps) {
+    const kind = gap.width > 0 ? `${gap.width}-tile gap` : 'ledge'
+    lines.push(`Impossible ${kind} from col ${gap.from.col}, row ${gap.from.row} to col ${gap.to.col}, row ${gap.to.row}`)
+  }
+  return lines
+}
@@ -0,0 +1,697 @@
+import { T_BLOCK, T_FLAG, T_GROUND, T_ONEWAY, T_SPIKE, isSlopeTile, slopeHeights, type Level } from './level'
+import { PLAYER_HEIGHT, type Enemy, type Orb, type PlayerState, type TrailPoint } from './entities'
+import type { Checkpoint } from './checkpoints'
+import { abilityDefinition, type AbilityIndicator, type Pickup } from './abilities'
+import type { MovingPlatform } from './platforms'
+import type { Projectile } from './spells'
+import { enemyKind } from './enemies'
+import { hazardConfig, type HazardPool } from './hazards'
+import { BOSS, type Boss } from './boss'
+import type { GhostPose } from './ghost'
+import { queryGrid, type SpatialGrid } from './spatialGrid'
+
+export function hsl(h: number, s: number, l: number, a = 1): string {
+  const hue = ((h % 360) + 360) % 360
+  return `hsla(${hue}, ${s}%, ${l}%, ${a})`
+}
+
+export const STREAK_COUNT = 30 // Known safe baseline per Instructions.md
+
+export type RenderVisuals = { streakCount: number; orbShadowBlur: number; enemyShadowBlur: number }
+
+// Refs used by the draw helpers (bound by the game component on each render)
+let visualsRef: { current: RenderVisuals } | null = null
+let drawTimeAvgMsRef: { current: number } | null = null
+
+export function bindRenderRefs(visuals: { current: RenderVisuals }, drawTimeAvgMs: { current: number }): void {
+  visualsRef = visuals
+  drawTimeAvgMsRef = drawTimeAvgMs
+}
+
+export function drawBackground(
+  context: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  timeMs: number,
+  cameraX: number,
+  worldWidth: number
+) {
+  const t = timeMs / 1000
+  const h1 = (t * 60) % 360
+  const h2 = (h1 + 100) % 360
+  const gradient = context.createLinearGradient(0, 0, 0, height)
+  gradient.addColorStop(0, hsl(h1, 95, 60))
+  gradient.addColorStop(1, hsl(h2, 95, 15))
+  context.fillStyle = gradient
+  context.fillRect(0, 0, width, height)
+
+  // Hyperspace streaks (parallax)
+  context.save()
+  context.translate(-cameraX * 0.3, 0)
+  context.globalAlpha = 0.25
+  const streakCount = visualsRef && visualsRef.current ? visualsRef.current.streakCount : STREAK_COUNT
+  for (let i = 0; i < streakCount; i += 1) {
+    const sx = ((i * 200 + t * 500) % (worldWidth + 400)) - 200
+    const sy = (Math.sin(i * 0.7 + t * 2) * 0.5 + 0.5) * height
+    context.strokeStyle = hsl((h1 + i * 5) % 360, 100, 70)
+    context.lineWidth = 2 + 2 * Math.sin(i + t * 4)
+    context.beginPath()
+    context.moveTo(sx, sy)
+    context.lineTo(sx + 60, sy)
+    context.stroke()
+  }
+  context.globalAlpha = 1
+  context.restore()
+}
+
+export function drawTilesAndObjects(
+  context: CanvasRenderingContext2D,
+  level: Level,
+  cameraX: number,
+  cameraY: number,
+  viewportWidth: number,
+  viewportHeight: number,
+  timeSeconds: number,
+  orbs: Orb[],
+  enemies: Enemy[],
+  checkpoints: Checkpoint[] = [],
+  platforms: MovingPlatform[] = [],
+  pickups: Pickup[] = [],
+  hazards: HazardPool | null = null,
+  portalOpen = true,
+  // Indexes of `orbs`, `enemies` and `hazards` (see spatialGrid.ts); without
+  // them every entry is checked against the view
+  orbGrid: SpatialGrid | null = null,
+  enemyGrid: SpatialGrid | null = null,
+  hazardGrid: SpatialGrid | null = null
+) {
+  const { tiles, tileSize } = level
+  const rows = tiles.length
+  const cols = tiles[0].length
+  const startX = Math.max(0, Math.floor(cameraX / tileSize) - 1)
+  const endX = Math.min(cols - 1, Math.floor((cameraX + viewportWidth) / tileSize) + 1)
+  const startY = Math.max(0, Math.floor(cameraY / tileSize) - 1)
+  const endY = Math.min(rows - 1, Math.floor((cameraY + viewportHeight) / tileSize) + 1)
+
+  context.save()
+  context.translate(-cameraX, -cameraY)
+
+  // Tiles
+  for (let y = startY; y <= endY; y += 1) {
+    for (let x = startX; x <= endX; x += 1) {
+      const tt = tiles[y][x]
+      const left = x * tileSize
+      const top = y * tileSize
+      if (tt === T_GROUND) {
+        context.fillStyle = hsl(200 + Math.sin((left + timeSeconds * 200) * 0.002) * 60, 80, 20)
+        context.fillRect(left, top, tileSize, tileSize)
+        context.fillStyle = hsl(160, 90, 55)
+        context.fillRect(left, top, tileSize, 5)
+      } else if (tt === T_BLOCK) {
+        context.strokeStyle = hsl(300, 100, 70)
+        context.lineWidth = 2
+        context.strokeRect(left + 4, top + 4, tileSize - 8, tileSize - 8)
+      } else if (tt === T_SPIKE) {
+        context.fillStyle = hsl(0, 100, 55)
+        context.beginPath()
+        context.moveTo(left, top + tileSize)
+        context.lineTo(left + tileSize / 2, top + tileSize - 18)
+        context.lineTo(left + tileSize, top + tileSize)
+        context.closePath()
+        context.fill()
+      } else if (tt === T_ONEWAY) {
+        // Thin ledge with a dashed underside: solid only from above
+        context.fillStyle = hsl(190, 100, 60)
+        context.fillRect(left, top, tileSize, 4)
+        context.fillStyle = hsl(190, 100, 60, 0.35)
+        for (let dx = 2; dx < tileSize; dx += 8) context.fillRect(left + dx, top + 7, 4, 2)
+      } else if (isSlopeTile(tt)) {
+        // Ground-colored wedge with the same glowing rim along the slope
+        const [hl, hr] = slopeHeights(tt)
+        const yl = top + tileSize * (1 - hl)
+        const yr = top + tileSize * (1 - hr)
+        context.fillStyle = hsl(200 + Math.sin((left + timeSeconds * 200) * 0.002) * 60, 80, 20)
+        context.beginPath()
+        context.moveTo(left, top + tileSize)
+        context.lineTo(left, yl)
+        context.lineTo(left + tileSize, yr)
+        context.lineTo(left + tileSize, top + tileSize)
+        context.closePath()
+        context.fill()
+        context.strokeStyle = hsl(160, 90, 55)
+        context.lineWidth = 5
+        context.beginPath()
+        context.moveTo(left, yl + 2.5)
+        context.lineTo(left + tileSize, yr + 2.5)
+        context.stroke()
+      } else if (tt === T_FLAG && !portalOpen) {
+        // Sealed until the boss falls: a dim ring crossed out
+        const cx = left + tileSize / 2
+        const cy = top + tileSize / 2
+        context.strokeStyle = 'rgba(180, 180, 200, 0.45)'
+        context.lineWidth = 3
+        context.beginPath()
+        context.arc(cx, cy, 12, 0, Math.PI * 2)
+        context.moveTo(cx - 8, cy - 8)
+        context.lineTo(cx + 8, cy + 8)
+        context.stroke()
+      } else if (tt === T_FLAG) {
+        const k = (Math.sin(timeSeconds * 3 + y + x) * 0.5 + 0.5) * 8 + 10
+        context.strokeStyle = hsl((timeSeconds * 120 + left) * 0.1, 100, 60)
+        context.lineWidth = 3
+        context.beginPath()
+        context.arc(left + tileSize / 2, top + tileSize / 2, k, 0, Math.PI * 2)
+        context.stroke()
+      }
+    }
+  }
+
+  // Orbs, enemies and the rest are culled against the view
+  const vxLeft = cameraX
+  const vxRight = cameraX + viewportWidth
+  const margin = 64
+
+  // Moving platforms
+  for (let i = 0; i < platforms.length; i += 1) {
+    const p = platforms[i]
+    if (p.x + p.width < vxLeft - margin || p.x > vxRight + margin) continue
+    context.save()
+    const hue = (timeSeconds * 90 + p.x * 0.05) % 360
+    context.shadowColor = hsl(hue, 100, 60)
+    context.shadowBlur = 12
+    context.fillStyle = hsl(hue, 80, 30)
+    context.fillRect(p.x, p.y, p.width, p.height)
+    context.strokeStyle = hsl(hue, 100, 70)
+    context.lineWidth = 2
+    context.strokeRect(p.x + 1, p.y + 1, p.width - 2, p.height - 2)
+    context.restore()
+  }
+
+  // Checkpoints: a pole with a crystal that lights up once reached
+  for (let i = 0; i < checkpoints.length; i += 1) {
+    const cp = checkpoints[i]
+    if (cp.x + cp.width < vxLeft - margin || cp.x > vxRight + margin) continue
+    const poleX = cp.x + cp.width / 2
+    const crystalY = cp.y + 8 + (cp.active ? Math.sin(timeSeconds * 4) * 3 : 0)
+    context.save()
+    context.strokeStyle = cp.active ? hsl(160, 90, 65) : hsl(200, 20, 45)
+    context.lineWidth = 3
+    context.beginPath()
+    context.moveTo(poleX, cp.y + cp.height)
+    context.lineTo(poleX, crystalY)
+    context.stroke()
+    const hue = cp.active ? (timeSeconds * 160 + cp.x * 0.1) % 360 : 200
+    context.shadowColor = hsl(hue, 100, 60)
+    context.shadowBlur = cp.active ? 18 : 0
+    context.fillStyle = cp.active ? hsl(hue, 100, 70) : hsl(200, 25, 55, 0.8)
+    context.beginPath()
+    context.moveTo(poleX, crystalY - 10)
+    context.lineTo(poleX + 7, crystalY)
+    context.lineTo(poleX, crystalY + 10)
+    context.lineTo(poleX - 7, crystalY)
+    context.closePath()
+    context.fill()
+    context.restore()
+  }
+
+  // Ability pickups: a bobbing ring in the ability's color with a plus inside
+  for (let i = 0; i < pickups.length; i += 1) {
+    const pu = pickups[i]
+    if (pu.collected) continue
+    if (pu.x + pu.width < vxLeft - margin || pu.x > vxRight + margin) continue
+    const cx = pu.x + pu.width / 2
+    const cy = pu.y + pu.height / 2 + Math.sin(timeSeconds * 3 + pu.x * 0.01) * 4
+    const hue = abilityDefinition(pu.ability).hue
+    context.save()
+    context.shadowColor = hsl(hue, 100, 60)
+    context.shadowBlur = 16
+    context.strokeStyle = hsl(hue, 100, 70)
+    context.lineWidth = 3
+    context.beginPath()
+    context.arc(cx, cy, pu.width / 2, 0, Math.PI * 2)
+    context.stroke()
+    context.fillStyle = hsl(hue, 100, 85)
+    context.fillRect(cx - 6, cy - 1.5, 12, 3)
+    context.fillRect(cx - 1.5, cy - 6, 3, 12)
+    context.restore()
+  }
+
+  const viewTop = cameraY - margin
+  const viewBottom = cameraY + viewportHeight + margin
+  const orbIds = orbGrid ? queryGrid(orbGrid, vxLeft - margin, viewTop, vxRight + margin, viewBottom) : null
+  const orbCount = orbIds ? orbIds.length : orbs.length
+  for (let k = 0; k < orbCount; k += 1) {
+    const orb = orbs[orbIds ? orbIds[k] : k]
+    if (orb.collected) continue
+    if (orb.x + orb.radius < vxLeft - margin || orb.x - orb.radius > vxRight + margin) continue
+    context.save()
+    const orbBlur = visualsRef && visualsRef.current ? visualsRef.current.orbShadowBlur : 15
+    context.shadowColor = hsl((timeSeconds * 200 + orb.x) * 0.1, 100, 60)
+    context.shadowBlur = orbBlur
+    context.fillStyle = hsl((timeSeconds * 200 + orb.x) * 0.1, 100, 70)
+    context.beginPath()
+    context.arc(orb.x, orb.y, orb.radius, 0, Math.PI * 2)
+    context.fill()
+    context.restore()
+  }
+
+  // Enemies
+  const enemyIds = enemyGrid ? queryGrid(enemyGrid, vxLeft - margin, viewTop, vxRight + margin, viewBottom) : null
+  const enemyCount = enemyIds ? enemyIds.length : enemies.length
+  for (let k = 0; k < enemyCount; k += 1) {
+    const e = enemies[enemyIds ? enemyIds[k] : k]
+    if (!e.alive) continue
+    if (e.x + e.width < vxLeft - margin || e.x > vxRight + margin) continue
+    context.save()
+    context.translate(e.x, e.y)
+    const style = enemyKind(e.type).render
+    const hue = (timeSeconds * 120 + e.x * 0.2 + e.y * 0.1 + style.hueShift) % 360
+    context.shadowColor = hsl(hue, 100, 60)
+    const eBlur = visualsRef && visualsRef.current ? visualsRef.current.enemyShadowBlur : 20
+    context.shadowBlur = eBlur
+    if (style.shape === 'diamond') {
+      // Trickster family: rotating diamond
+      context.rotate(Math.sin(e.phase) * 0.6)
+      context.fillStyle = hsl(hue, 100, 60)
+      context.beginPath()
+      context.moveTo(0, e.height / 2)
+      context.lineTo(e.width / 2, 0)
+      context.lineTo(e.width, e.height / 2)
+      context.lineTo(e.width / 2, e.height)
+      context.closePath()
+      context.fill()
+    } else if (style.shape === 'wisp') {
+      // Wisp: pulsing core with a flickering tail opposite its drift
+      const cx = e.width / 2
+      const cy = e.height / 2
+      const tail = e.velocityX > 0 ? -1 : 1
+      context.fillStyle = hsl(hue, 100, 60, 0.35)
+      context.beginPath()
+      context.arc(cx + tail * 10, cy + Math.sin(e.phase * 3) * 3, e.width / 3, 0, Math.PI * 2)
+      context.fill()
+      context.fillStyle = hsl(hue, 100, 75)
+      context.beginPath()
+      context.arc(cx, cy, e.width / 2 - 2 + Math.sin(e.phase * 4) * 2, 0, Math.PI * 2)
+      context.fill()
+    } else {
+      // Hyper-dimensional family: starburst
+      context.rotate(e.phase * 0.7)
+      context.strokeStyle = hsl(hue, 100, 70)
+      context.lineWidth = 3
+      context.beginPath()
+      for (let k = 0; k < 7; k += 1) {
+        const ang = (k / 7) * Math.PI * 2
+        const r1 = 8 + 6 * Math.sin(e.phase + k)
+        context.moveTo(e.width / 2, e.height / 2)
+        context.lineTo(
+          e.width / 2 + Math.cos(ang) * (10 + r1),
+          e.height / 2 + Math.sin(ang) * (10 + r1)
+        )
+      }
+      context.stroke()
+    }
+    context.restore()
+  }
+
+  // Hazards: shots are sparks in their shooter's hue, spike traps point down
+  // and shake before dropping, fire bars are a chain of fireballs around a
+  // dark pivot
+  const hazardIds = hazards && hazardGrid ? queryGrid(hazardGrid, vxLeft - margin, viewTop, vxRight + margin, viewBottom) : null
+  const hazardCount = hazardIds ? hazardIds.length : hazards ? hazards.count : 0
+  for (let k = 0; k < hazardCount; k += 1) {
+    const i = hazardIds ? hazardIds[k] : k
+    const h = (hazards as HazardPool).items[i]
+    if (h.x + h.width < vxLeft - margin || h.x > vxRight + margin) continue
+    context.save()
+    if (h.kind === 'projectile') {
+      const hue = (h.hue + Math.sin(timeSeconds * 30 + i) * 15 + 360) % 360
+      context.shadowColor = hsl(hue, 100, 55)
+      context.shadowBlur = 12
+      context.fillStyle = hsl(hue, 100, 65)
+      context.beginPath()
+      context.arc(h.x + h.width / 2, h.y + h.height / 2, h.width / 2, 0, Math.PI * 2)
+      context.fill()
+    } else if (h.kind === 'spikeTrap') {
+      if (h.state !== 'broken') {
+        const shake = h.state === 'shaking' ? Math.sin(timeSeconds * 80) * 2 : 0
+        context.fillStyle = h.state === 'armed' ? hsl(0, 80, 45) : hsl(0, 100, 60)
+        context.beginPath()
+        context.moveTo(h.x + shake, h.y)
+        context.lineTo(h.x + h.width + shake, h.y)
+        context.lineTo(h.x + h.width / 2 + shake, h.y + h.height)
+        context.closePath()
+        context.fill()
+      }
+    } else {
+      const stepX = Math.cos(h.angle) * hazardConfig.fireBarSpacing
+      const stepY = Math.sin(h.angle) * hazardConfig.fireBarSpacing
+      context.fillStyle = hsl(0, 0, 25)
+      context.fillRect(h.anchorX - 6, h.anchorY - 6, 12, 12)
+      context.shadowColor = hsl(h.hue, 100, 55)
+      context.shadowBlur = 14
+      for (let k = 1; k <= hazardConfig.fireBarLinks; k += 1) {
+        context.fillStyle = hsl(h.hue + Math.sin(timeSeconds * 20 + k) * 12, 100, 60)
+        context.beginPath()
+        context.arc(h.anchorX + stepX * k, h.anchorY + stepY * k, hazardConfig.fireBarRadius, 0, Math.PI * 2)
+        context.fill()
+      }
+    }
+    context.restore()
+  }
+
+  context.restore()
+}
+
+// Boss: a big rotating crystal that glows while winding up, flashes when hit
+// and fades to an outline once defeated
+export function drawBoss(context: CanvasRenderingContext2D, boss: Boss, cameraX: number, cameraY: number, timeSeconds: number) {
+  context.save()
+  context.translate(boss.x - cameraX + boss.width / 2, boss.y - cameraY + boss.height / 2)
+  const half = boss.width / 2
+  if (boss.state === 'defeated') {
+    context.strokeStyle = 'rgba(200, 200, 220, 0.35)'
+    context.lineWidth = 2
+    context.strokeRect(-half * 0.7, -half * 0.7, half * 1.4, half * 1.4)
+    context.restore()
+    return
+  }
+  const hue = (300 + boss.phase * 50 + Math.sin(timeSeconds * 2) * 20) % 360
+  const windup = boss.state === 'windup'
+  context.shadowColor = hsl(hue, 100, 60)
+  context.shadowBlur = windup ? 40 : 20
+  // Outer ring spins faster each phase
+  context.save()
+  context.rotate(timeSeconds * (1 + boss.phase))
+  context.strokeStyle = hsl(hue, 100, 70)
+  context.lineWidth = 3
+  context.strokeRect(-half, -half, boss.width, boss.height)
+  context.restore()
+  // Core diamond
+  context.rotate(Math.sin(timeSeconds * 3) * 0.3)
+  context.fillStyle = boss.hurtTimer > 0 && Math.floor(timeSeconds * 30) % 2 === 0 ? '#fff' : hsl(hue, 100, windup ? 75 : 55)
+  context.beginPath()
+  context.moveTo(0, -half * 0.8)
+  context.lineTo(half * 0.6, 0)
+  context.lineTo(0, half * 0.8)
+  context.lineTo(-half * 0.6, 0)
+  context.closePath()
+  context.fill()
+  // Eye looks the way it faces
+  context.fillStyle = '#0b0b0b'
+  context.beginPath()
+  context.arc(boss.facing * 6, -4, 5, 0, Math.PI * 2)
+  context.fill()
+  context.restore()
+}
+
+export function drawPlayer(
+  context: CanvasRenderingContext2D,
+  player: PlayerState,
+  cameraX: number,
+  cameraY: number,
+  timeSeconds: number,
+  trail: TrailPoint[]
+) {
+  context.save()
+  context.translate(-cameraX, -cameraY)
+
+  // Trail blocks
+  for (let i = 0; i < trail.length; i += 1) {
+    const p = trail[i]
+    const alpha = (i / trail.length) * 0.5
+    if (p.kind === 'dash') {
+      // Afterimage: the wizard's robe silhouette left behind
+      context.fillStyle = hsl((190 + i * 6) % 360, 100, 65, alpha * 1.4)
+      context.beginPath()
+      context.moveTo(p.x + 12, p.y)
+      context.lineTo(p.x, p.y + player.height)
+      context.lineTo(p.x + 24, p.y + player.height)
+      context.closePath()
+      context.fill()
+    } else if (p.kind === 'wallJump') {
+      // Hot streaks from the kick
+      context.fillStyle = hsl((20 + i * 4) % 360, 100, 60, alpha * 1.6)
+      context.fillRect(p.x + 2, p.y + 6, 20, 16)
+    } else if (p.kind === 'wallSlide') {
+      // Sparks scraped off the wall
+      const wallX = p.side > 0 ? p.x + player.width : p.x
+      const jitter = Math.sin(timeSeconds * 40 + i * 1.7) * 3
+      context.fillStyle = hsl(45, 100, 70, alpha * 1.8)
+      context.fillRect(wallX - 1 + jitter * 0.3, p.y + player.height - 4 + jitter, 3, 3)
+    } else {
+      context.fillStyle = hsl((timeSeconds * 150 + i * 10) % 360, 100, 70, alpha)
+      context.fillRect(p.x + 6, p.y + 10, 12, 10)
+    }
+  }
+
+  // Wizard body with hat (flickering while invulnerable after a hit)
+  const wizHue = (timeSeconds * 200 + player.positionX * 0.1) % 360
+  context.save()
+  if (player.invulnerableTimer > 0) context.globalAlpha = Math.sin(timeSeconds * 40) > 0 ? 0.25 : 0.85
+  context.translate(player.positionX, player.positionY)
+  context.shadowColor = hsl(wizHue, 100, 60)
+  context.shadowBlur = 25
+  drawWizardShape(context, player.height, player.facing, hsl(wizHue, 100, 65), hsl((wizHue + 120) % 360, 100, 60), '#fff')
+  context.restore()
+
+  context.restore()
+}
+
+// Robe, hat and eyes with the wizard's top-left at the origin
+function drawWizardShape(context: CanvasRenderingContext2D, height: number, facing: number, robe: string, hat: string, eyes: string) {
+  // Robe (triangle)
+  context.fillStyle = robe
+  context.beginPath()
+  context.moveTo(12, 0)
+  context.lineTo(0, height)
+  context.lineTo(24, height)
+  context.closePath()
+  context.fill()
+  // Hat
+  context.fillStyle = hat
+  context.beginPath()
+  context.moveTo(12, -8)
+  context.lineTo(6, 6)
+  context.lineTo(18, 6)
+  context.closePath()
+  context.fill()
+  // Eyes (glancing the way the wizard faces)
+  context.fillStyle = eyes
+  context.fillRect(6 + facing, 8, 3, 3)
+  context.fillRect(15 + facing, 8, 3, 3)
+}
+
+// The best run's wizard: same shape, muted and see-through, no glow
+export function drawGhost(context: CanvasRenderingContext2D, pose: GhostPose, cameraX: number, cameraY: number) {
+  context.save()
+  context.globalAlpha = 0.4
+  context.translate(pose.x - cameraX, pose.y - cameraY)
+  drawWizardShape(context, PLAYER_HEIGHT, pose.facing, hsl(220, 18, 72), hsl(220, 14, 56), hsl(220, 30, 92))
+  context.restore()
+}
+
+export function drawProjectiles(
+  context: CanvasRenderingContext2D,
+  projectiles: Projectile[],
+  cameraX: number,
+  cameraY: number,
+  timeSeconds: number,
+  // With the view size and an index of `projectiles`, only those in view are drawn
+  viewportWidth = 0,
+  viewportHeight = 0,
+  grid: SpatialGrid | null = null
+) {
+  context.save()
+  context.translate(-cameraX, -cameraY)
+  context.globalCompositeOperation = 'lighter'
+  // Bolts trail a 40 px streak
+  const ids = grid ? queryGrid(grid, cameraX - 40, cameraY, cameraX + viewportWidth + 40, cameraY + viewportHeight) : null
+  const count = ids ? ids.length : projectiles.length
+  for (let k = 0; k < count; k += 1) {
+    const i = ids ? ids[k] : k
+    const p = projectiles[i]
+    const dir = p.velocityX >= 0 ? 1 : -1
+    const hue = (p.spell.hue + Math.sin(timeSeconds * 20 + i) * 20 + 360) % 360
+    context.shadowColor = hsl(hue, 100, 60)
+    context.shadowBlur = 18
+    if (p.spell.shape === 'bolt') {
+      // Bright core with a fading streak behind it
+      const cx = p.x + p.width / 2
+      const cy = p.y + p.height / 2
+      const streak = context.createLinearGradient(cx, cy, cx - dir * 40, cy)
+      streak.addColorStop(0, hsl(hue, 100, 70, 0.9))
+      streak.addColorStop(1, hsl(hue, 100, 50, 0))
+      context.fillStyle = streak
+      context.fillRect(dir > 0 ? cx - 40 : cx, cy - 2, 40, 4)
+      context.fillStyle = hsl(hue, 100, 85)
+      context.beginPath()
+      context.ellipse(cx, cy, p.width / 2, p.height / 2, 0, 0, Math.PI * 2)
+      context.fill()
+    } else {
+      // Crescent arcs that flicker as the wave travels
+      context.strokeStyle = hsl(hue, 100, 70)
+      context.lineWidth = 3
+      for (let k = 0; k < 3; k += 1) {
+        const cx = p.x + p.width / 2 - dir * k * 6
+        context.globalAlpha = 1 - k * 0.3
+        context.beginPath()
+        const a0 = dir > 0 ? -Math.PI / 2.6 : Math.PI - Math.PI / 2.6
+        context.arc(cx - dir * p.height * 0.4, p.y + p.height / 2, p.height / 2, a0, a0 + (Math.PI * 2) / 2.6)
+        context.stroke()
+      }
+      context.globalAlpha = 1
+    }
+  }
+  context.restore()
+}
+
+export function drawHUD(
+  context: CanvasRenderingContext2D,
+  canvasWidth: number,
+  canvasHeight: number,
+  orbsCollected: number,
+  dead: boolean,
+  won: boolean,
+  timeSeconds: number,
+  abilities: AbilityIndicator[],
+  powerMsg: { name: string; time: number },
+  winHint: string | null,
+  levelLabel: string,
+  checkpointMsgTime = 0,
+  spell: { name: string; readiness: number } | null = null,
+  vitals: { health: number; maxHealth: number; lives: number } | null = null,
+  boss: Boss | null = null,
+  ghostSplit: number | null = null
+) {
+  context.save()
+  context.font = '16px system-ui, -apple-system, Segoe UI, Roboto'
+  let ctrl = 'Move: ← →  | Jump: SPACE  | Run: SHIFT/X  '
+  for (let i = 0; i < abilities.length; i += 1) ctrl += `| ${abilities[i].hint}  `
+  ctrl += '| Restart: R'
+  context.fillStyle = '#0b0b0b'
+  context.globalAlpha = 0.8
+  context.fillRect(8, 8, Math.max(600, context.measureText(ctrl).width + 24), 70)
+  context.globalAlpha = 1
+  context.fillStyle = '#eaffff'
+  context.fillText(`Orbs: ${orbsCollected}`, 16, 30)
+  context.fillText(levelLabel, 140, 30)
+  context.fillText(ctrl, 16, 52)
+
+  // Selected spell with a cooldown bar (Q switches)
+  if (spell) {
+    context.fillText(`Spell: ${spell.name} (Q)`, 360, 30)
+    context.fillStyle = 'rgba(255,255,255,0.15)'
+    context.fillRect(360, 36, 120, 4)
+    context.fillStyle = spell.readiness >= 1 ? hsl(160, 90, 60) : hsl(40, 100, 60)
+    context.fillRect(360, 36, 120 * Math.max(0, Math.min(1, spell.readiness)), 4)
+    context.fillStyle = '#eaffff'
+  }
+
+  // Hearts for health, then lives left
+  if (vitals) {
+    for (let i = 0; i < vitals.maxHealth; i += 1) {
+      context.fillStyle = i < vitals.health ? hsl(350, 100, 62) : 'rgba(255,255,255,0.2)'
+      context.fillText('♥', 360 + i * 18, 68)
+    }
+    context.fillStyle = '#eaffff'
+    context.fillText(`Lives: ${vitals.lives}`, 370 + vitals.maxHealth * 18, 68)
+  }
+
+  // Held abilities under the panel: name, then charge pips or a bar for
+  // what's left of a timed one
+  let badgeX = 8
+  for (let i = 0; i < abilities.length; i += 1) {
+    const a = abilities[i]
+    context.font = '13px system-ui, -apple-system, Segoe UI, Roboto'
+    const badgeW = context.measureText(a.name).width + 16 + (a.charges !== null ? 12 : 0)
+    context.fillStyle = 'rgba(11,11,11,0.8)'
+    context.fillRect(badgeX, 84, badgeW, 22)
+    context.fillStyle = hsl(a.hue, 100, 70)
+    context.fillText(a.name, badgeX + 8, 100)
+    if (a.charges !== null) {
+      context.fillStyle = a.charges > 0 ? hsl(a.hue, 100, 70) : 'rgba(255,255,255,0.2)'
+      context.fillRect(badgeX + badgeW - 14, 91, 6, 8)
+    }
+    if (a.remaining !== null) {
+      context.fillStyle = hsl(a.hue, 100, 60)
+      context.fillRect(badgeX, 104, badgeW * Math.max(0, Math.min(1, a.remaining)), 2)
+    }
+    badgeX += badgeW + 6
+  }
+  context.font = '16px system-ui, -apple-system, Segoe UI, Roboto'
+  context.fillStyle = '#eaffff'
+
+  // Ephemeral power unlock message
+  if (powerMsg.time > 0) {
+    const alpha = 0.6 + Math.sin(timeSeconds * 10) * 0.4
+    context.save()
+    context.globalAlpha = Math.max(0, Math.min(1, alpha))
+    context.fillStyle = '#fff'
+    context.font = '24px system-ui, -apple-system, Segoe UI, Roboto'
+    const msg = `New power unlocked: ${powerMsg.name}`
+    const tw = context.measureText(msg).width
+    context.fillText(msg, canvasWidth / 2 - tw / 2, 100)
+    context.restore()
+  }
+  if (checkpointMsgTime > 0) {
+    context.save()
+    context.globalAlpha = Math.min(1, checkpointMsgTime)
+    context.fillStyle = hsl(160, 90, 75)
+    context.font = '20px system-ui, -apple-system, Segoe UI, Roboto'
+    const msg = 'Checkpoint reached'
+    const tw = context.measureText(msg).width
+    context.fillText(msg, canvasWidth / 2 - tw / 2, powerMsg.time > 0 ? 130 : 100)
+    context.restore()
+  }
+  // Boss health bar along the bottom while it fights, split at phase changes
+  if (boss && boss.state !== 'dormant' && boss.state !== 'defeated') {
+    const barW = Math.min(480, canvasWidth - 80)
+    const barX = canvasWidth / 2 - barW / 2
+    const barY = canvasHeight - 40
+    context.fillStyle = 'rgba(11,11,11,0.8)'
+    context.fillRect(barX - 8, barY - 24, barW + 16, 40)
+    context.fillStyle = '#eaffff'
+    context.fillText(BOSS.name, barX, barY - 6)
+    context.fillStyle = 'rgba(255,255,255,0.15)'
+    context.fillRect(barX, barY, barW, 8)
+    context.fillStyle = hsl(300 + boss.phase * 50, 100, 60)
+    context.fillRect(barX, barY, barW * (boss.health / BOSS.maxHealth), 8)
+    context.fillStyle = '#0b0b0b'
+    for (let i = 1; i < BOSS.phases.length; i += 1) context.fillRect(barX + barW * BOSS.phases[i].fromHealth - 1, barY, 2, 8)
+    context.fillStyle = '#eaffff'
+  }
+
+  const drawAvg = drawTimeAvgMsRef && drawTimeAvgMsRef.current ? drawTimeAvgMsRef.current : 0
+  context.fillText(`Draw: ${drawAvg.toFixed(1)} ms (avg)`, 16, 68)
+
+  // Split against the best run's ghost: + behind, − ahead
+  if (ghostSplit !== null) {
+    context.fillStyle = ghostSplit > 0 ? hsl(0, 90, 70) : hsl(140, 90, 65)
+    context.fillText(`Ghost ${ghostSplit > 0 ? '+' : '−'}${Math.abs(ghostSplit).toFixed(2)}s`, 210, 68)
+    context.fillStyle = '#eaffff'
+  }
+
+  if (dead || won) {
+    context.fillStyle = 'rgba(0,0,0,0.55)'
+    context.fillRect(0, 0, canvasWidth, canvasHeight)
+    context.fillStyle = '#fff'
+    context.font = '28px system-ui, -apple-system, Segoe UI, Roboto'
+    const gameOver = !won && vitals !== null && vitals.lives === 0
+    const title = won ? 'You transcended!' : gameOver ? 'Game over' : 'Lost in hyperspace!'
+    context.fillText(title, canvasWidth / 2 - 150, canvasHeight / 2 - 10)
+    context.font = '18px system-ui, -apple-system, Segoe UI, Roboto'
+    let prompt = 'Press R to play again'
+    if (gameOver) prompt = 'Press R to start the level over'
+    else if (!won && vitals) prompt = `Press R to continue (${vitals.lives} ${vitals.lives === 1 ? 'life' : 'lives'} left)`
+    context.fillText(prompt, canvasWidth / 2 - 110, canvasHeight / 2 + 20)
+    if (won && winHint) {
+      const tw = context.measureText(winHint).width
+      context.fillText(winHint, canvasWidth / 2 - tw / 2 + 5, canvasHeight / 2 + 46)
+    }
+  }
+
+  // Tiny draw time indicator shimmer
+  context.fillStyle = hsl(timeSeconds * 200, 100, 70)
+  context.fillRect(canvasWidth - 24, 16, 8, 8)
+  context.restore()
+}
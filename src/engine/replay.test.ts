@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+import { parseAsciiLevel } from '../levels/asciiLevel'
+import { loadReplay, serializeReplay } from '../levels/replayFile'
+import type { LevelDefinition } from './level'
+import { createReplay, recordCheat, recordTick, runReplay, type Replay } from './replay'
+import { applyDevCheat, createWorld, createWorldInputs, stepWorld, TICK_SECONDS, type DevCheat, type GameWorld } from './world'
+
+// Foes of every kind (random patrols, shots, hops), orbs and traps, so a
+// replay that drifts by a single tick ends up somewhere else
+const ARENA = parseAsciiLevel(
+  [
+    '................................................................................',
+    '................................................................................',
+    '..........................w......o..........*...................................',
+    '..................v.............................................................',
+    '.@..o...o...t.....o.....x.....s....o....h......p......o......t.......o.........|',
+    '################################################################################',
+  ].join('\n'),
+  { name: 'replay test' }
+)
+
+const SEED = 90210
+
+// Plays `ticks` ticks of scripted input the way HyperWizard does: record, then
+// step. `cheats` are used between ticks, keyed by the tick they come before.
+function playLive(level: LevelDefinition, ticks: number, cheats: Record<number, DevCheat> = {}): { world: GameWorld; recording: Replay } {
+  const world = createWorld(level, { width: 1280, height: 720 }, SEED)
+  const recording = createReplay(level, world.seed)
+  const inputs = createWorldInputs()
+  for (let tick = 0; tick < ticks; tick += 1) {
+    const cheat = cheats[tick]
+    if (cheat) {
+      recordCheat(recording, cheat)
+      applyDevCheat(world, cheat)
+    }
+    // The window shrinks part way through
+    if (tick === 200) world.viewport.width = 800
+    inputs.moveRight = tick % 240 < 200
+    inputs.moveLeft = tick % 240 >= 210
+    inputs.run = tick % 90 < 45
+    inputs.jump = tick % 70 < 12
+    inputs.attack = tick % 53 < 5
+    inputs.cycleSpell = tick === 150
+    // Carry on after losing the first life
+    inputs.restart = tick >= 400 && tick < 405
+    recordTick(recording, world, inputs)
+    stepWorld(world, inputs, TICK_SECONDS)
+    inputs.cycleSpell = false
+  }
+  return { world, recording }
+}
+
+// Everything a run's outcome depends on
+function outcome(world: GameWorld) {
+  const { player } = world
+  return {
+    tick: world.tick,
+    rng: world.rng(),
+    player: [player.positionX, player.positionY, player.velocityX, player.velocityY, player.health],
+    abilities: Object.entries(player.abilities).map(([id, a]) => [id, a.owned]),
+    lives: world.lives,
+    orbs: world.orbs.map((o) => o.collected),
+    enemies: world.enemies.map((e) => [e.alive, e.x, e.y]),
+  }
+}
+
+describe('replays', () => {
+  it('re-run a recorded session with the same result after a save and load', () => {
+    const { world, recording } = playLive(ARENA, 600)
+    // The run got somewhere, so matching it means something
+    expect(world.player.positionX).toBeGreaterThan(ARENA.spawn.x + 5 * 32)
+    expect(world.orbs.some((o) => o.collected)).toBe(true)
+    const loaded = loadReplay(serializeReplay(recording))
+    expect(loaded.inputs).toEqual(recording.inputs)
+    expect(loaded.viewports).toEqual([
+      { tick: 0, width: 1280, height: 720 },
+      { tick: 200, width: 800, height: 720 },
+    ])
+    expect(outcome(runReplay(loaded))).toEqual(outcome(world))
+  })
+
+  it('apply dev cheats at the tick they were used', () => {
+    const cheats: Record<number, DevCheat> = {
+      40: { kind: 'grantAbility', ability: 'dash' },
+      120: { kind: 'killAllEnemies' },
+      300: { kind: 'collectAllOrbs' },
+    }
+    const { world, recording } = playLive(ARENA, 400, cheats)
+    const loaded = loadReplay(serializeReplay(recording))
+    expect(loaded.cheats).toEqual(recording.cheats)
+    expect(outcome(runReplay(loaded))).toEqual(outcome(world))
+    // Without them the run ends differently
+    expect(outcome(runReplay({ ...loaded, cheats: [] }))).not.toEqual(outcome(world))
+  })
+})
@@ -0,0 +1,126 @@
+import { cloneLevelDefinition, type LevelDefinition } from './level'
+import { applyDevCheat, createWorld, createWorldInputs, stepWorld, TICK_SECONDS, type DevCheat, type GameWorld, type WorldInputs } from './world'
+
+// Replays: a level, the world's seed and every tick's inputs packed into a
+// bit mask, plus the viewport whenever it changes (enemy wake-up and the
+// camera depend on it) and any dev cheats used. Running them back through
+// stepWorld reproduces the session tick for tick; replayFile.ts turns them
+// into files.
+
+// Bit order of packed inputs; only ever append so old replays keep working
+export const INPUT_BITS: readonly (keyof WorldInputs)[] = [
+  'moveLeft',
+  'moveRight',
+  'jump',
+  'run',
+  'up',
+  'down',
+  'dash',
+  'attack',
+  'restart',
+  'cycleSpell',
+]
+
+export type ViewportChange = { tick: number; width: number; height: number }
+
+// Applied right before the tick it names
+export type CheatEvent = { tick: number; cheat: DevCheat }
+
+export type Replay = {
+  level: LevelDefinition
+  seed: number
+  // One packed mask per tick
+  inputs: number[]
+  // The first entry is at tick 0
+  viewports: ViewportChange[]
+  // In tick order
+  cheats: CheatEvent[]
+}
+
+export function packInputs(inputs: WorldInputs): number {
+  let mask = 0
+  for (let i = 0; i < INPUT_BITS.length; i += 1) if (inputs[INPUT_BITS[i]]) mask |= 1 << i
+  return mask
+}
+
+export function unpackInputs(mask: number, out: WorldInputs): WorldInputs {
+  for (let i = 0; i < INPUT_BITS.length; i += 1) out[INPUT_BITS[i]] = (mask & (1 << i)) !== 0
+  return out
+}
+
+export function createReplay(level: LevelDefinition, seed: number): Replay {
+  return { level: cloneLevelDefinition(level), seed, inputs: [], viewports: [], cheats: [] }
+}
+
+// Call right before stepWorld with the inputs it is about to get
+export function recordTick(replay: Replay, world: GameWorld, inputs: WorldInputs): void {
+  const tick = replay.inputs.length
+  const { width, height } = world.viewport
+  const last = replay.viewports.length > 0 ? replay.viewports[replay.viewports.length - 1] : null
+  if (!last || last.width !== width || last.height !== height) replay.viewports.push({ tick, width, height })
+  replay.inputs.push(packInputs(inputs))
+}
+
+// Call when a cheat is applied between ticks; playback applies it at the
+// same point
+export function recordCheat(replay: Replay, cheat: DevCheat): void {
+  replay.cheats.push({ tick: replay.inputs.length, cheat })
+}
+
+export type ReplayPlayback = {
+  replay: Replay
+  world: GameWorld
+  // Inputs fed to the last step
+  inputs: WorldInputs
+  // Next tick to play
+  tick: number
+  viewportIndex: number
+  cheatIndex: number
+}
+
+export function createPlayback(replay: Replay): ReplayPlayback {
+  const first = replay.viewports.length > 0 ? replay.viewports[0] : undefined
+  return {
+    replay,
+    world: createWorld(replay.level, first, replay.seed),
+    inputs: createWorldInputs(),
+    tick: 0,
+    viewportIndex: 0,
+    cheatIndex: 0,
+  }
+}
+
+export function playbackFinished(playback: ReplayPlayback): boolean {
+  return playback.tick >= playback.replay.inputs.length
+}
+
+// One recorded tick; false once the recording has run out
+export function stepPlayback(playback: ReplayPlayback): boolean {
+  const { replay, world } = playback
+  // Before the finished check: cheats used after the last tick still count
+  const cheats = replay.cheats
+  while (playback.cheatIndex < cheats.length && cheats[playback.cheatIndex].tick <= playback.tick) {
+    applyDevCheat(world, cheats[playback.cheatIndex].cheat)
+    playback.cheatIndex += 1
+  }
+  if (playbackFinished(playback)) return false
+  const viewports = replay.viewports
+  while (playback.viewportIndex < viewports.length && viewports[playback.viewportIndex].tick <= playback.tick) {
+    world.viewport.width = viewports[playback.viewportIndex].width
+    world.viewport.height = viewports[playback.viewportIndex].height
+    playback.viewportIndex += 1
+  }
+  stepWorld(world, unpackInputs(replay.inputs[playback.tick], playback.inputs), TICK_SECONDS)
+  playback.tick += 1
+  return true
+}
+
+// Plays `ticks` ticks (default: all of them) without rendering and returns
+// the world as it ended up, e.g. to look into a bug report
+export function runReplay(replay: Replay, ticks = replay.inputs.length): GameWorld {
+  const playback = createPlayback(replay)
+  while (playback.tick < ticks) {
+    if (!stepPlayback(playback)) break
+  }
+  return playback.world
+}
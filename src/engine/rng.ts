@@ -0,0 +1,38 @@
+// Small seeded PRNG so generated content and replays are reproducible
+
+export type Rng = () => number
+
+// mulberry32: fast, 32-bit state, good enough for gameplay randomness
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// FNV-1a hash so human-readable seed strings map to a numeric seed
+export function hashSeed(text: string): number {
+  let h = 0x811c9dc5
+  for (let i = 0; i < text.length; i += 1) {
+    h ^= text.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+// Short shareable seed, e.g. "k3f9qz"
+export function randomSeedString(): string {
+  return Math.floor(Math.random() * 36 ** 6).toString(36).padStart(6, '0')
+}
+
+export function randInt(rng: Rng, min: number, max: number): number {
+  return min + Math.floor(rng() * (max - min + 1))
+}
+
+export function chance(rng: Rng, probability: number): boolean {
+  return rng() < probability
+}
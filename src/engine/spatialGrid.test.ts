@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import { clearGrid, createGrid, insertItem, queryGrid } from './spatialGrid'
+
+// 400×300 px in 100 px cells: 4 columns by 3 rows
+
+describe('spatial grid', () => {
+  it('sizes itself to cover the level, at least one cell', () => {
+    const grid = createGrid(400, 300, 0, 100)
+    expect([grid.cols, grid.rows]).toEqual([4, 3])
+    expect(createGrid(401, 1, 0, 100).cols).toBe(5)
+    expect([createGrid(0, 0, 0, 100).cols, createGrid(0, 0, 0, 100).rows]).toEqual([1, 1])
+  })
+
+  it('finds items in the cells a region covers and nothing else', () => {
+    const grid = createGrid(400, 300, 0, 100)
+    insertItem(grid, 0, 50, 50)
+    insertItem(grid, 1, 150, 50)
+    insertItem(grid, 2, 350, 250)
+    expect(queryGrid(grid, 10, 10, 90, 90)).toEqual([0])
+    expect(queryGrid(grid, 10, 10, 190, 90)).toEqual([0, 1])
+    expect(queryGrid(grid, 210, 110, 290, 190)).toEqual([])
+  })
+
+  it('returns indices in ascending order across cells', () => {
+    const grid = createGrid(400, 300, 0, 100)
+    // Filed so that cell order and index order disagree
+    insertItem(grid, 5, 350, 250)
+    insertItem(grid, 1, 350, 50)
+    insertItem(grid, 4, 50, 250)
+    insertItem(grid, 0, 150, 150)
+    insertItem(grid, 3, 50, 50)
+    insertItem(grid, 2, 250, 150)
+    expect(queryGrid(grid, 0, 0, 399, 299)).toEqual([0, 1, 2, 3, 4, 5])
+  })
+
+  it('widens queries by the reach', () => {
+    const grid = createGrid(400, 300, 30, 100)
+    insertItem(grid, 0, 120, 50)
+    // 20 px short of the item's cell, inside the 30 px reach
+    expect(queryGrid(grid, 10, 10, 80, 90)).toEqual([0])
+    expect(queryGrid(grid, 10, 10, 60, 90)).toEqual([])
+  })
+
+  it('files anchors off the level in the nearest edge cell', () => {
+    const grid = createGrid(400, 300, 0, 100)
+    insertItem(grid, 0, -500, -20)
+    insertItem(grid, 1, 9000, 150)
+    insertItem(grid, 2, 200, 300)
+    expect(queryGrid(grid, 0, 0, 50, 50)).toEqual([0])
+    expect(queryGrid(grid, 350, 150, 399, 160)).toEqual([1])
+    // Exactly on the bottom edge belongs to the last row
+    expect(queryGrid(grid, 200, 250, 210, 299)).toEqual([2])
+    // Regions reaching off the level are clamped the same way
+    expect(queryGrid(grid, -1000, -1000, 5000, 5000)).toEqual([0, 1, 2])
+  })
+
+  it('starts empty again after clearing', () => {
+    const grid = createGrid(400, 300, 0, 100)
+    insertItem(grid, 0, 50, 50)
+    insertItem(grid, 1, 350, 250)
+    clearGrid(grid)
+    expect(queryGrid(grid, 0, 0, 400, 300)).toEqual([])
+    expect(grid.used).toEqual([])
+    insertItem(grid, 7, 50, 50)
+    expect(queryGrid(grid, 0, 0, 400, 300)).toEqual([7])
+  })
+
+  it('reuses one result array per grid', () => {
+    const grid = createGrid(400, 300, 0, 100)
+    insertItem(grid, 0, 50, 50)
+    const first = queryGrid(grid, 0, 0, 90, 90)
+    expect(queryGrid(grid, 300, 200, 390, 290)).toBe(first)
+    expect(first).toEqual([])
+  })
+})
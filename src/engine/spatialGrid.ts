@@ -0,0 +1,76 @@
+// Uniform grid over the level for finding entities by region instead of
+// scanning whole arrays. Each cell lists the indices (into the caller's array)
+// of the entities whose anchor point lies in it; anchors off the level go in
+// the nearest edge cell. Queries widen the region by `reach`, the furthest a
+// body extends from its anchor, so they return everything that could overlap
+// it and callers still do their exact test.
+
+export type SpatialGrid = {
+  cellSize: number
+  cols: number
+  rows: number
+  reach: number
+  cells: number[][]
+  // Cells holding something, so clearing skips the empty ones
+  used: number[]
+  // Result of the last query (reused)
+  found: number[]
+}
+
+// 4 tiles; a 1280×720 view covers about 60 cells
+export const GRID_CELL_SIZE = 128
+
+export function createGrid(width: number, height: number, reach: number, cellSize = GRID_CELL_SIZE): SpatialGrid {
+  const cols = Math.max(1, Math.ceil(width / cellSize))
+  const rows = Math.max(1, Math.ceil(height / cellSize))
+  const cells: number[][] = []
+  for (let i = 0; i < cols * rows; i += 1) cells.push([])
+  return { cellSize, cols, rows, reach, cells, used: [], found: [] }
+}
+
+export function clearGrid(grid: SpatialGrid): void {
+  const { cells, used } = grid
+  for (let i = 0; i < used.length; i += 1) cells[used[i]].length = 0
+  used.length = 0
+}
+
+function cellCol(grid: SpatialGrid, x: number): number {
+  return Math.max(0, Math.min(grid.cols - 1, Math.floor(x / grid.cellSize)))
+}
+
+function cellRow(grid: SpatialGrid, y: number): number {
+  return Math.max(0, Math.min(grid.rows - 1, Math.floor(y / grid.cellSize)))
+}
+
+// File entity `index` under the cell containing its anchor (x, y)
+export function insertItem(grid: SpatialGrid, index: number, x: number, y: number): void {
+  const cell = cellRow(grid, y) * grid.cols + cellCol(grid, x)
+  const list = grid.cells[cell]
+  if (list.length === 0) grid.used.push(cell)
+  list.push(index)
+}
+
+function byIndex(a: number, b: number): number {
+  return a - b
+}
+
+// Indices of the entities that may overlap the region, ascending so callers
+// visit them in the same order as a scan of the whole array would. The array
+// is reused by the next query on this grid.
+export function queryGrid(grid: SpatialGrid, left: number, top: number, right: number, bottom: number): number[] {
+  const { cells, cols, reach, found } = grid
+  found.length = 0
+  const fromCol = cellCol(grid, left - reach)
+  const toCol = cellCol(grid, right + reach)
+  const fromRow = cellRow(grid, top - reach)
+  const toRow = cellRow(grid, bottom + reach)
+  for (let r = fromRow; r <= toRow; r += 1) {
+    for (let c = fromCol; c <= toCol; c += 1) {
+      const list = cells[r * cols + c]
+      for (let i = 0; i < list.length; i += 1) found.push(list[i])
+    }
+  }
+  // Items go in in index order, so a single cell is already sorted
+  if (fromCol !== toCol || fromRow !== toRow) found.sort(byIndex)
+  return found
+}
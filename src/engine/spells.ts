@@ -0,0 +1,136 @@
+import { rectVsTiles, slopeSurfaceAt } from './collision'
+import type { Level } from './level'
+import type { Enemy, PlayerState } from './entities'
+import { queryGrid, type SpatialGrid } from './spatialGrid'
+
+// Spells cast with the attack key. Each spell is plain data: the simulation
+// and renderer only read the fields below, so a new spell is one more entry
+// in SPELLS.
+
+export type SpellDefinition = {
+  id: string
+  name: string
+  cooldown: number // seconds between casts
+  speed: number // px/s
+  width: number
+  height: number
+  range: number // px travelled before the spell fizzles
+  // Keeps flying through enemies instead of stopping at the first one hit
+  piercing: boolean
+  // How render.ts draws it
+  shape: 'bolt' | 'wave'
+  hue: number
+}
+
+export const SPELLS: readonly SpellDefinition[] = [
+  { id: 'bolt', name: 'Bolt', cooldown: 0.35, speed: 720, width: 14, height: 8, range: 560, piercing: false, shape: 'bolt', hue: 185 },
+  { id: 'wave', name: 'Piercing Wave', cooldown: 1, speed: 380, width: 14, height: 26, range: 360, piercing: true, shape: 'wave', hue: 300 },
+]
+
+export type Projectile = {
+  spell: SpellDefinition
+  x: number
+  y: number
+  velocityX: number
+  width: number
+  height: number
+  travelled: number
+  alive: boolean
+}
+
+export type SpellCaster = {
+  spellIndex: number
+  // Seconds until the next cast is allowed
+  cooldown: number
+}
+
+export function createCaster(): SpellCaster {
+  return { spellIndex: 0, cooldown: 0 }
+}
+
+export function selectedSpell(caster: SpellCaster): SpellDefinition {
+  return SPELLS[caster.spellIndex]
+}
+
+export function cycleSpell(caster: SpellCaster): void {
+  caster.spellIndex = (caster.spellIndex + 1) % SPELLS.length
+}
+
+// 0 right after a cast, 1 when ready again (for the HUD)
+export function spellReadiness(caster: SpellCaster): number {
+  const spell = selectedSpell(caster)
+  return spell.cooldown > 0 ? 1 - caster.cooldown / spell.cooldown : 1
+}
+
+export function tickCaster(caster: SpellCaster, fixedDeltaSeconds: number): void {
+  if (caster.cooldown > 0) caster.cooldown = Math.max(0, caster.cooldown - fixedDeltaSeconds)
+}
+
+// Launch the selected spell from the player's hand when it is off cooldown
+export function castSpell(caster: SpellCaster, player: PlayerState): Projectile | null {
+  if (caster.cooldown > 0) return null
+  const spell = selectedSpell(caster)
+  caster.cooldown = spell.cooldown
+  const handX = player.facing > 0 ? player.positionX + player.width : player.positionX - spell.width
+  return {
+    spell,
+    x: handX,
+    y: player.positionY + (player.height - spell.height) / 2,
+    velocityX: spell.speed * player.facing,
+    width: spell.width,
+    height: spell.height,
+    travelled: 0,
+    alive: true,
+  }
+}
+
+// Move projectiles, fizzle them on walls or at the end of their range, and
+// drop spent ones from the list (in place)
+export function updateProjectiles(level: Level, projectiles: Projectile[], fixedDeltaSeconds: number): void {
+  for (let i = 0; i < projectiles.length; i += 1) {
+    const p = projectiles[i]
+    if (!p.alive) continue
+    const dx = p.velocityX * fixedDeltaSeconds
+    p.x += dx
+    p.travelled += Math.abs(dx)
+    if (p.travelled >= p.spell.range || rectVsTiles(level, p.x, p.y, p.width, p.height).collided) {
+      p.alive = false
+      continue
+    }
+    // Slopes aren't part of the tile AABB test; check the center against the surface
+    const bottom = p.y + p.height
+    const slopeY = slopeSurfaceAt(level, p.x + p.width / 2, Math.floor(bottom / level.tileSize))
+    if (slopeY !== null && bottom > slopeY) p.alive = false
+  }
+  let kept = 0
+  for (let i = 0; i < projectiles.length; i += 1) {
+    if (projectiles[i].alive) projectiles[kept++] = projectiles[i]
+  }
+  projectiles.length = kept
+}
+
+// Defeat enemies touched by a live projectile; returns how many fell. With an
+// index of the enemies (see spatialGrid.ts) only those near each projectile
+// are tested.
+export function resolveSpellHits(projectiles: Projectile[], enemies: Enemy[], enemyGrid: SpatialGrid | null = null): number {
+  let defeated = 0
+  for (let i = 0; i < projectiles.length; i += 1) {
+    const p = projectiles[i]
+    if (!p.alive) continue
+    const near = enemyGrid ? queryGrid(enemyGrid, p.x, p.y, p.x + p.width, p.y + p.height) : null
+    const count = near ? near.length : enemies.length
+    for (let k = 0; k < count; k += 1) {
+      const e = enemies[near ? near[k] : k]
+      if (!e.alive) continue
+      if (p.x < e.x + e.width && p.x + p.width > e.x && p.y < e.y + e.height && p.y + p.height > e.y) {
+        e.alive = false
+        defeated += 1
+        if (!p.spell.piercing) {
+          p.alive = false
+          break
+        }
+      }
+    }
+  }
+  return defeated
+}
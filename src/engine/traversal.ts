@@ -0,0 +1,257 @@
+import {
+  T_FLAG,
+  T_ONEWAY,
+  T_SPIKE,
+  isSlopeTile,
+  isSolidTile,
+  isStandableTile,
+  levelCols,
+  levelRows,
+  type Level,
+  type LevelDefinition,
+} from './level'
+import { grantAbility } from './abilities'
+import { createPlayer, type PlayerState } from './entities'
+import { slopeSurfaceAt } from './collision'
+import {
+  fellOutOfWorld,
+  integratePlayer,
+  physicsConstants,
+  touchesPortal,
+  touchesSpike,
+  type MovementInputs,
+  type PhysicsConstants,
+} from './physics'
+
+// Movement search over "stand cells" (an open, spike-free tile with solid
+// ground, a one-way tile or a slope directly below it). Every edge between cells is
+// found by running the real player integrator with a scripted input, so the
+// answer matches what a player at the keyboard can do. Moving platforms are
+// not part of the search.
+
+const STEP_SECONDS = 1 / 60
+const MAX_MOVE_FRAMES = 240
+// How long the direction key stays held before letting go mid-air
+const HOLD_FRAMES = [0, 3, 6, 10, 15, 22, 30, MAX_MOVE_FRAMES]
+
+export type Cell = { col: number; row: number }
+
+export type ScriptedMove = {
+  dir: -1 | 1
+  run: boolean
+  jump: boolean
+  holdFrames: number
+  // Horizontal speed at the start, for jumps taken with a run-up
+  startSpeed: number
+  canFly: boolean
+  // Down+Jump through a one-way tile
+  drop?: boolean
+}
+
+export type MoveOutcome =
+  | { kind: 'land'; cell: Cell }
+  | { kind: 'portal' }
+  | { kind: 'death' }
+  | { kind: 'timeout' }
+
+export type TraversalOptions = {
+  constants?: PhysicsConstants
+  canFly?: boolean
+  // Called with the player after every simulated step (used by the analyzer)
+  onStep?: (player: PlayerState) => void
+}
+
+export function isStandCell(level: Level, col: number, row: number): boolean {
+  if (row < 0 || row + 1 >= levelRows(level) || col < 0 || col >= levelCols(level)) return false
+  const tile = level.tiles[row][col]
+  return !isSolidTile(tile) && !isSlopeTile(tile) && tile !== T_SPIKE && isStandableTile(level.tiles[row + 1][col])
+}
+
+// Player standing centered in a cell
+export function playerAtCell(level: Level, cell: Cell): PlayerState {
+  const player = createPlayer({ x: 0, y: 0 })
+  player.positionX = cell.col * level.tileSize + (level.tileSize - player.width) / 2
+  // On a slope the feet rest on its surface under the player's center
+  const slopeY = slopeSurfaceAt(level, player.positionX + player.width / 2, cell.row + 1)
+  player.positionY = (slopeY !== null ? slopeY : (cell.row + 1) * level.tileSize) - player.height
+  player.isOnGround = true
+  player.onOneWay = level.tiles[cell.row + 1][cell.col] === T_ONEWAY
+  return player
+}
+
+// The stand cell under a grounded player: prefer the column under the
+// player's center, else whichever foot is supported
+function supportCell(level: Level, player: PlayerState): Cell | null {
+  const ts = level.tileSize
+  const row = Math.floor((player.positionY + player.height) / ts) - 1
+  const cols = [
+    Math.floor((player.positionX + player.width / 2) / ts),
+    Math.floor(player.positionX / ts),
+    Math.floor((player.positionX + player.width - 1) / ts),
+  ]
+  for (const col of cols) {
+    if (isStandCell(level, col, row)) return { col, row }
+  }
+  return null
+}
+
+function runScript(
+  level: Level,
+  player: PlayerState,
+  inputsAt: (frame: number) => MovementInputs,
+  options: TraversalOptions
+): MoveOutcome {
+  const constants = options.constants || physicsConstants
+  let leftGround = !player.isOnGround
+  for (let frame = 0; frame < MAX_MOVE_FRAMES; frame += 1) {
+    integratePlayer(level, player, inputsAt(frame), STEP_SECONDS, constants)
+    if (options.onStep) options.onStep(player)
+    if (touchesSpike(player) || fellOutOfWorld(level, player)) return { kind: 'death' }
+    if (touchesPortal(player)) return { kind: 'portal' }
+    if (!player.isOnGround) {
+      leftGround = true
+    } else if (leftGround) {
+      const cell = supportCell(level, player)
+      return cell ? { kind: 'land', cell } : { kind: 'timeout' }
+    } else if (frame >= 30) {
+      // Never left the starting surface (walked into a wall); walking is covered separately
+      return { kind: 'timeout' }
+    }
+  }
+  return { kind: 'timeout' }
+}
+
+export function simulateMove(level: Level, from: Cell, move: ScriptedMove, options: TraversalOptions = {}): MoveOutcome {
+  const player = playerAtCell(level, from)
+  if (move.canFly) grantAbility(player, 'flight')
+  player.velocityX = move.dir * move.startSpeed
+  const inputsAt = (frame: number): MovementInputs => {
+    const holding = frame < move.holdFrames
+    if (move.drop) return { moveLeft: false, moveRight: false, jump: frame < 2, run: false, up: false, down: frame < 2, dash: false }
+    return {
+      moveLeft: holding && move.dir < 0,
+      moveRight: holding && move.dir > 0,
+      // Flight needs the button held to climb; a plain jump only reads it on take-off
+      jump: move.jump && (move.canFly ? holding || frame < 20 : true),
+      run: move.run,
+      up: false,
+      down: false,
+      dash: false,
+    }
+  }
+  return runScript(level, player, inputsAt, options)
+}
+
+// Drop the player from the level spawn with no input to find where play begins
+export function settleFromSpawn(def: LevelDefinition, options: TraversalOptions = {}): MoveOutcome {
+  const player = createPlayer(def.spawn)
+  const idle: MovementInputs = { moveLeft: false, moveRight: false, jump: false, run: false, up: false, down: false, dash: false }
+  return runScript(def.level, player, () => idle, options)
+}
+
+export function scriptedMovesFrom(level: Level, cell: Cell, constants: PhysicsConstants, canFly: boolean): ScriptedMove[] {
+  const moves: ScriptedMove[] = []
+  if (level.tiles[cell.row + 1][cell.col] === T_ONEWAY) {
+    moves.push({ dir: 1, run: false, jump: true, holdFrames: 0, startSpeed: 0, canFly, drop: true })
+  }
+  for (const dir of [-1, 1] as const) {
+    // A run-up is possible when the cell behind is walkable too
+    const hasRunUp = isStandCell(level, cell.col - dir, cell.row)
+    const ahead = isStandCell(level, cell.col + dir, cell.row)
+    for (const run of [false, true]) {
+      const topSpeed = constants.baseMoveSpeed * (run ? constants.runMultiplier : 1)
+      for (const holdFrames of HOLD_FRAMES) {
+        if (holdFrames === 0 && dir > 0) continue // straight up only once
+        moves.push({ dir, run, jump: true, holdFrames, startSpeed: 0, canFly })
+        if (hasRunUp && holdFrames > 0) moves.push({ dir, run, jump: true, holdFrames, startSpeed: topSpeed, canFly })
+        // Walking off a ledge
+        if (!ahead && holdFrames > 0) moves.push({ dir, run, jump: false, holdFrames, startSpeed: hasRunUp ? topSpeed : 0, canFly })
+      }
+    }
+  }
+  return moves
+}
+
+export type TraversalResult = {
+  start: Cell | null
+  // reachable[row][col] for stand cells the player can get to from spawn
+  reachable: boolean[][]
+  portalReached: boolean
+}
+
+// Breadth-first search over stand cells from the spawn point
+export function exploreLevel(def: LevelDefinition, options: TraversalOptions = {}): TraversalResult {
+  const level = def.level
+  const constants = options.constants || physicsConstants
+  const canFly = !!options.canFly
+  const rows = levelRows(level)
+  const cols = levelCols(level)
+  const reachable: boolean[][] = Array.from({ length: rows }, () => new Array(cols).fill(false))
+  let portalReached = false
+
+  const settled = settleFromSpawn(def, options)
+  if (settled.kind === 'portal') portalReached = true
+  if (settled.kind !== 'land') return { start: null, reachable, portalReached }
+
+  const queue: Cell[] = [settled.cell]
+  reachable[settled.cell.row][settled.cell.col] = true
+  const visit = (cell: Cell) => {
+    if (reachable[cell.row][cell.col]) return
+    reachable[cell.row][cell.col] = true
+    queue.push(cell)
+  }
+
+  while (queue.length > 0) {
+    const cell = queue.shift() as Cell
+    if (level.tiles[cell.row][cell.col] === T_FLAG) portalReached = true
+    // Walking along the same surface, one row up or down where a slope joins them
+    for (const dc of [-1, 1]) {
+      if (isStandCell(level, cell.col + dc, cell.row)) visit({ col: cell.col + dc, row: cell.row })
+      for (const dr of [-1, 1]) {
+        const next = { col: cell.col + dc, row: cell.row + dr }
+        if (isStandCell(level, next.col, next.row) && slopeJoins(level, cell, next)) visit(next)
+      }
+    }
+    // Skip the middle of long flat runs: their moves repeat the neighbours'
+    const flatRun =
+      isStandCell(level, cell.col - 1, cell.row) && isStandCell(level, cell.col + 1, cell.row) &&
+      isStandCell(level, cell.col - 2, cell.row) && isStandCell(level, cell.col + 2, cell.row) &&
+      !hasOverhead(level, cell)
+    if (flatRun && cell.col % 2 === 1) continue
+    for (const move of scriptedMovesFrom(level, cell, constants, canFly)) {
+      const outcome = simulateMove(level, cell, move, options)
+      if (outcome.kind === 'portal') portalReached = true
+      if (outcome.kind === 'land') visit(outcome.cell)
+    }
+  }
+
+  return { start: settled.cell, reachable, portalReached }
+}
+
+// Whether a slope under either cell meets the other cell's ground edge to edge
+function slopeJoins(level: Level, a: Cell, b: Cell): boolean {
+  const ts = level.tileSize
+  // x of the edge the two cells share
+  const edgeX = Math.max(a.col, b.col) * ts
+  const groundAt = (cell: Cell, px: number) => {
+    const slopeY = slopeSurfaceAt(level, px, cell.row + 1)
+    return slopeY !== null ? slopeY : (cell.row + 1) * ts
+  }
+  const ya = groundAt(a, a.col < b.col ? edgeX - 0.01 : edgeX)
+  const yb = groundAt(b, b.col < a.col ? edgeX - 0.01 : edgeX)
+  return Math.abs(ya - yb) < 1 && (isSlopeTile(level.tiles[a.row + 1][a.col]) || isSlopeTile(level.tiles[b.row + 1][b.col]))
+}
+
+// Anything solid within jump height above the cell makes its moves unique
+function hasOverhead(level: Level, cell: Cell): boolean {
+  for (let r = cell.row - 1; r >= Math.max(0, cell.row - 5); r -= 1) {
+    for (let c = cell.col - 3; c <= cell.col + 3; c += 1) {
+      if (c >= 0 && c < levelCols(level) && isStandableTile(level.tiles[r][c])) return true
+    }
+  }
+  return false
+}
+
+export function isLevelCompletable(def: LevelDefinition, constants: PhysicsConstants = physicsConstants): boolean {
+  return exploreLevel(def, { constants }).portalReached
+}
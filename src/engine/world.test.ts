@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest'
+import { parseAsciiLevel } from '../levels/asciiLevel'
+import { hasAbility } from './abilities'
+import { enemyKind } from './enemies'
+import { hazardDamage, healthConfig } from './health'
+import { createWorld, createWorldInputs, orbsCollected, stepWorld, TICK_SECONDS, type GameWorld, type WorldEvent, type WorldInputs } from './world'
+
+// Small grids in the ASCII level format (see asciiLevel.ts); 32 px tiles
+
+function worldFrom(rows: string[]): GameWorld {
+  return createWorld(parseAsciiLevel(rows.join('\n'), { name: 'test' }))
+}
+
+// Steps until `until` holds (or `maxTicks` pass) and returns every event heard
+function run(world: GameWorld, held: Partial<WorldInputs>, until: (world: GameWorld, events: WorldEvent[]) => boolean, maxTicks = 240): WorldEvent[] {
+  const inputs = { ...createWorldInputs(), ...held }
+  const heard: WorldEvent[] = []
+  for (let i = 0; i < maxTicks; i += 1) {
+    stepWorld(world, inputs, TICK_SECONDS)
+    heard.push(...world.events)
+    if (until(world, world.events)) return heard
+  }
+  throw new Error(`condition not met within ${maxTicks} ticks`)
+}
+
+const onGround = (world: GameWorld) => world.player.isOnGround
+const heardEvent = (kind: WorldEvent) => (_: GameWorld, events: WorldEvent[]) => events.includes(kind)
+
+// The boxed-in foe keeps flight locked, so holding jump is a plain jump
+const OPEN_FIELD = [
+  '..........',
+  '..........',
+  '..........',
+  '..........',
+  '..........',
+  '.@.......|',
+  '......=t=.',
+  '##########',
+]
+
+describe('player physics', () => {
+  it('lands flush on the ground and stops falling', () => {
+    const world = worldFrom(OPEN_FIELD)
+    run(world, {}, onGround)
+    expect(world.player.positionY + world.player.height).toBe(7 * 32)
+    expect(world.player.velocityY).toBe(0)
+  })
+
+  it('jumps in a single arc between two and four tiles high and lands where it took off', () => {
+    const world = worldFrom(OPEN_FIELD)
+    run(world, {}, onGround)
+    const groundY = world.player.positionY
+    let apexY = groundY
+    // Vertical direction changes while airborne: up, then down once
+    let turns = 0
+    let lastVelocityY = -1
+    const events = run(world, { jump: true }, (w) => {
+      const { positionY, velocityY } = w.player
+      apexY = Math.min(apexY, positionY)
+      if (velocityY !== 0 && Math.sign(velocityY) !== Math.sign(lastVelocityY)) turns += 1
+      if (velocityY !== 0) lastVelocityY = velocityY
+      return w.player.isOnGround && positionY >= groundY
+    })
+    expect(events.filter((e) => e === 'jump')).toHaveLength(1)
+    expect(groundY - apexY).toBeGreaterThan(64)
+    expect(groundY - apexY).toBeLessThan(128)
+    expect(turns).toBe(1)
+    expect(world.player.positionY).toBe(groundY)
+  })
+})
+
+// The TRICK is boxed in by blocks so it patrols on the spot under the spawn
+const STOMP_PIT = [
+  '...........',
+  '.@.........',
+  '...........',
+  '...........',
+  '=t=.......|',
+  '###########',
+]
+
+describe('enemies', () => {
+  it('are defeated by landing on them, without hurting the player', () => {
+    const world = worldFrom(STOMP_PIT)
+    const events = run(world, {}, heardEvent('stomp'))
+    expect(world.enemies[0].alive).toBe(false)
+    expect(events).not.toContain('hurt')
+    expect(world.player.health).toBe(healthConfig.maxHealth)
+    // Bounced off
+    expect(world.player.velocityY).toBeLessThan(0)
+  })
+
+  it('hurt the player when touched from the side and survive', () => {
+    const world = worldFrom([
+      '..........',
+      '.@...t...|',
+      '##########',
+    ])
+    const events = run(world, { moveRight: true }, heardEvent('hurt'))
+    expect(events).not.toContain('stomp')
+    expect(world.enemies[0].alive).toBe(true)
+    expect(world.player.health).toBe(healthConfig.maxHealth - enemyKind('TRICK').damage)
+  })
+})
+
+describe('hazards and pickups', () => {
+  it('spikes take a heart from a player falling onto them', () => {
+    const world = worldFrom([
+      '.......',
+      '.@....|',
+      '.^.....',
+      '#######',
+    ])
+    run(world, {}, heardEvent('hurt'))
+    expect(world.player.health).toBe(healthConfig.maxHealth - hazardDamage.spike)
+  })
+
+  it('walking through an orb collects it once', () => {
+    const world = worldFrom([
+      '@..o....|',
+      '#########',
+    ])
+    const events = run(world, { moveRight: true }, (w) => w.player.positionX > 6 * 32)
+    expect(events.filter((e) => e === 'collect')).toHaveLength(1)
+    expect(world.orbs[0].collected).toBe(true)
+    expect(orbsCollected(world)).toBe(1)
+  })
+})
+
+describe('ability unlocks', () => {
+  it('grants flight once the last foe is defeated', () => {
+    const world = worldFrom(STOMP_PIT)
+    stepWorld(world, createWorldInputs(), TICK_SECONDS)
+    expect(hasAbility(world.player, 'flight')).toBe(false)
+    const events = run(world, {}, heardEvent('stomp'))
+    expect(events).toContain('flight')
+    expect(hasAbility(world.player, 'flight')).toBe(true)
+    expect(world.powerMsg.name).toBe('Flight')
+  })
+
+  it('keeps dash locked in a level without orbs', () => {
+    const world = worldFrom(STOMP_PIT)
+    run(world, {}, heardEvent('stomp'))
+    expect(hasAbility(world.player, 'dash')).toBe(false)
+  })
+})
@@ -0,0 +1,616 @@
+import { cloneLevelDefinition, type Level, type LevelDefinition } from './level'
+import { createEnemy, createOrb, createPlayer, PLAYER_HEIGHT, snapOrbsToSurfaces, type Enemy, type Orb, type PlayerState, type TrailPoint } from './entities'
+import { createPlatform, platformUnder, updatePlatforms, type MovingPlatform } from './platforms'
+import { castSpell, createCaster, cycleSpell, resolveSpellHits, tickCaster, updateProjectiles, type Projectile, type SpellCaster } from './spells'
+import { captureWorld, createCheckpoint, restoreWorld, touchedCheckpoint, type Checkpoint, type WorldSnapshot } from './checkpoints'
+import {
+  checkUnlocks,
+  collectPickups,
+  createAbilitySet,
+  createPickup,
+  grantAbility,
+  hasAbility,
+  refillCharges,
+  revokeAbility,
+  type AbilityDefinition,
+  type AbilityId,
+  type Pickup,
+} from './abilities'
+import { enemyKind, updateEnemy } from './enemies'
+import { clearHazards, createHazardPool, hazardConfig, hazardHittingPlayer, hazardSourceX, spawnTraps, updateHazards, type HazardPool } from './hazards'
+import {
+  BOSS,
+  bossEngaged,
+  createBoss,
+  damageBoss,
+  overlapsBoss,
+  portalOpen,
+  resolveBossSpellHits,
+  updateBoss,
+  type Boss,
+  type BossDamageResult,
+} from './boss'
+import { applyDamage, hazardDamage, healPlayer, healthConfig, tickInvulnerability, type DamageResult } from './health'
+import { createRng, type Rng } from './rng'
+import { clearGrid, createGrid, insertItem, queryGrid, type SpatialGrid } from './spatialGrid'
+import { clamp, fellOutOfWorld, integratePlayer, physicsConstants, touchesPortal, touchesSpike, type MovementInputs } from './physics'
+
+// The whole game simulation without React, the DOM, canvas or audio: build a
+// world from a level definition, then call stepWorld once per fixed tick with
+// that tick's inputs. Sounds come out as `events` for the caller to play, and
+// the renderer reads everything else straight off the world. Randomness comes
+// from the world's seeded rng and nothing reads a clock, so the same seed,
+// viewport and inputs always play out the same way (see replay.ts).
+
+export type WorldInputs = MovementInputs & {
+  attack: boolean
+  restart: boolean
+  // Switch to the next spell; true for the one tick the key went down
+  cycleSpell: boolean
+}
+
+export function createWorldInputs(): WorldInputs {
+  return {
+    moveLeft: false,
+    moveRight: false,
+    jump: false,
+    run: false,
+    up: false,
+    down: false,
+    dash: false,
+    attack: false,
+    restart: false,
+    cycleSpell: false,
+  }
+}
+
+// Something the player should hear this tick (names match the audio SfxKind)
+export type WorldEvent =
+  | 'jump'
+  | 'runStep'
+  | 'collect'
+  | 'stomp'
+  | 'death'
+  | 'win'
+  | 'flight'
+  | 'checkpoint'
+  | 'cast'
+  | 'zap'
+  | 'wallJump'
+  | 'dash'
+  | 'hurt'
+  | 'roar'
+
+export type GameWorld = {
+  // Private copy of the level; the simulation may change it
+  definition: LevelDefinition
+  seed: number
+  rng: Rng
+  // Steps taken since the world was created
+  tick: number
+  // Tick the current run started at (level start, or starting it over)
+  runStartTick: number
+  level: Level
+  player: PlayerState
+  // Top-left of the view in world px, and its size; enemies outside it sleep
+  camera: { x: number; y: number }
+  viewport: { width: number; height: number }
+  orbs: Orb[]
+  enemies: Enemy[]
+  checkpoints: Checkpoint[]
+  pickups: Pickup[]
+  // Enemy and boss shots plus the level's traps
+  hazards: HazardPool
+  platforms: MovingPlatform[]
+  boss: Boss | null
+  caster: SpellCaster
+  projectiles: Projectile[]
+  // Where orbs, enemies, spells and hazards are, for finding them by region
+  // (see the index* functions for when each is brought up to date)
+  orbGrid: SpatialGrid
+  enemyGrid: SpatialGrid
+  projectileGrid: SpatialGrid
+  hazardGrid: SpatialGrid
+  // World as it was when the last checkpoint was reached (null = none yet)
+  snapshot: WorldSnapshot | null
+  trail: TrailPoint[]
+  // Wall-jump streaks are added to the trail while this runs down
+  wallKickTimer: number
+  dead: boolean
+  won: boolean
+  lives: number
+  // Last spot the player stood on solid ground; falls return here
+  safeSpot: { x: number; y: number }
+  footstepTimer: number
+  // "New power unlocked" banner
+  powerMsg: { name: string; time: number }
+  checkpointMsgTimer: number
+  // Filled by each stepWorld call
+  events: WorldEvent[]
+}
+
+// The simulation always advances in steps of this length
+export const TICKS_PER_SECOND = 60
+export const TICK_SECONDS = 1 / TICKS_PER_SECOND
+
+const TRAIL_MAX = 20
+// Enemies this far outside the view keep still
+const ENEMY_WAKE_MARGIN = 128
+// How far bodies reach from their grid anchor (their center). Enemies get
+// slack for being carried by platforms after the index was last rebuilt.
+const ORB_GRID_REACH = 16
+const ENEMY_GRID_REACH = 64
+const PROJECTILE_GRID_REACH = 32
+// Fire bars are the widest hazard: their sweep reaches this far from the pivot
+const HAZARD_GRID_REACH = hazardConfig.fireBarLinks * hazardConfig.fireBarSpacing + hazardConfig.fireBarRadius
+// Orbs are picked up this far beyond their radius from the player's center
+const ORB_PICKUP_RANGE = 12
+
+export function createWorld(source: LevelDefinition, viewport = { width: 1280, height: 720 }, seed = 0): GameWorld {
+  const definition = cloneLevelDefinition(source)
+  const { tiles, tileSize } = definition.level
+  const worldWidth = tiles[0].length * tileSize
+  const worldHeight = tiles.length * tileSize
+  const world: GameWorld = {
+    definition,
+    seed,
+    rng: createRng(seed),
+    tick: 0,
+    runStartTick: 0,
+    level: definition.level,
+    player: createPlayer(definition.spawn),
+    camera: { x: 0, y: 0 },
+    viewport: { ...viewport },
+    orbs: [],
+    enemies: [],
+    checkpoints: [],
+    pickups: [],
+    hazards: createHazardPool(),
+    platforms: [],
+    boss: null,
+    caster: createCaster(),
+    projectiles: [],
+    orbGrid: createGrid(worldWidth, worldHeight, ORB_GRID_REACH),
+    enemyGrid: createGrid(worldWidth, worldHeight, ENEMY_GRID_REACH),
+    projectileGrid: createGrid(worldWidth, worldHeight, PROJECTILE_GRID_REACH),
+    hazardGrid: createGrid(worldWidth, worldHeight, HAZARD_GRID_REACH),
+    snapshot: null,
+    trail: [],
+    wallKickTimer: 0,
+    dead: false,
+    won: false,
+    lives: healthConfig.lives,
+    safeSpot: { ...definition.spawn },
+    footstepTimer: 0,
+    powerMsg: { name: '', time: 0 },
+    checkpointMsgTimer: 0,
+    events: [],
+  }
+  resetWorld(world)
+  return world
+}
+
+// Everything the level puts back when it starts over (first load, game over
+// and playing again after a win)
+export function resetWorld(world: GameWorld): void {
+  const { definition } = world
+  const ts = definition.level.tileSize
+  world.runStartTick = world.tick
+  world.player.abilities = createAbilitySet()
+  // Orbs, snapped onto the surface below them
+  world.orbs = definition.orbs.map(createOrb)
+  snapOrbsToSurfaces(definition.level, world.orbs, PLAYER_HEIGHT)
+  // Orbs never move, so their index is built once per run
+  clearGrid(world.orbGrid)
+  for (let i = 0; i < world.orbs.length; i += 1) insertItem(world.orbGrid, i, world.orbs[i].x, world.orbs[i].y)
+  world.enemies = definition.enemies.map((e) => createEnemy(e, ts, world.rng))
+  indexEnemies(world)
+  world.checkpoints = definition.checkpoints.map((c) => createCheckpoint(c, ts))
+  world.platforms = definition.platforms.map((p) => createPlatform(p, ts))
+  world.pickups = definition.pickups.map((p) => createPickup(p, ts))
+  clearHazards(world.hazards)
+  spawnTraps(world.hazards, definition.hazards, ts)
+  indexHazards(world)
+  world.boss = definition.boss ? createBoss(definition.boss, ts) : null
+  world.snapshot = null
+  world.caster = createCaster()
+  world.projectiles = []
+  clearGrid(world.projectileGrid)
+  world.lives = healthConfig.lives
+}
+
+// Back to the last checkpoint (or the spawn) with full health
+export function restartPlayer(world: GameWorld): void {
+  const { player, definition } = world
+  const ts = definition.level.tileSize
+  world.trail = []
+  world.projectiles = []
+  clearGrid(world.projectileGrid)
+  // Shots vanish and traps hang back in place
+  clearHazards(world.hazards)
+  spawnTraps(world.hazards, definition.hazards, ts)
+  indexHazards(world)
+  world.caster.cooldown = 0
+  healPlayer(player)
+  // An unbeaten boss goes back to sleep at full health
+  if (definition.boss && !portalOpen(world.boss)) world.boss = createBoss(definition.boss, ts)
+  const snapshot = world.snapshot
+  if (snapshot) {
+    restoreWorld(snapshot, world.checkpoints, player, world.orbs, world.enemies, world.pickups)
+    indexEnemies(world)
+    world.safeSpot = { x: snapshot.spawn.x, y: snapshot.spawn.y }
+    world.camera.x = Math.max(0, Math.floor(snapshot.spawn.x - world.viewport.width / 2))
+    world.camera.y = 0
+    return
+  }
+  const spawn = definition.spawn
+  player.positionX = spawn.x
+  player.positionY = spawn.y
+  player.velocityX = 0
+  player.velocityY = 0
+  player.isOnGround = false
+  player.dropThroughTimer = 0
+  // Drop boss minions
+  if (world.enemies.length > definition.enemies.length) world.enemies.length = definition.enemies.length
+  indexEnemies(world)
+  world.safeSpot = { x: spawn.x, y: spawn.y }
+  world.camera.x = 0
+  world.camera.y = 0
+}
+
+// Rebuilds the enemy index from where living enemies are now. Done once a tick
+// after enemies and the boss have moved (and whenever the list is replaced),
+// so it also serves the next tick's wake-up query.
+export function indexEnemies(world: GameWorld): void {
+  const { enemies, enemyGrid } = world
+  clearGrid(enemyGrid)
+  for (let i = 0; i < enemies.length; i += 1) {
+    const e = enemies[i]
+    if (e.alive) insertItem(enemyGrid, i, e.x + e.width / 2, e.y + e.height / 2)
+  }
+}
+
+// Rebuilds the projectile index after they moved
+export function indexProjectiles(world: GameWorld): void {
+  const { projectiles, projectileGrid } = world
+  clearGrid(projectileGrid)
+  for (let i = 0; i < projectiles.length; i += 1) {
+    const p = projectiles[i]
+    insertItem(projectileGrid, i, p.x + p.width / 2, p.y + p.height / 2)
+  }
+}
+
+// Rebuilds the hazard index after the pool updated (releasing shots reorders it)
+export function indexHazards(world: GameWorld): void {
+  const { hazards, hazardGrid } = world
+  clearGrid(hazardGrid)
+  for (let i = 0; i < hazards.count; i += 1) {
+    const h = hazards.items[i]
+    insertItem(hazardGrid, i, h.x + h.width / 2, h.y + h.height / 2)
+  }
+}
+
+// Ticks since the current run started
+export function runTicks(world: GameWorld): number {
+  return world.tick - world.runStartTick
+}
+
+export function orbsCollected(world: GameWorld): number {
+  let n = 0
+  for (let i = 0; i < world.orbs.length; i += 1) if (world.orbs[i].collected) n += 1
+  return n
+}
+
+export function enemiesAlive(world: GameWorld): number {
+  let n = 0
+  for (let i = 0; i < world.enemies.length; i += 1) if (world.enemies[i].alive) n += 1
+  return n
+}
+
+// A hit that empties the health pool ends the attempt and costs a life
+// Dev overlay shortcuts. They change the world between ticks, so a recording
+// keeps them next to its inputs (see recordCheat in replay.ts).
+export type DevCheat =
+  | { kind: 'grantAbility'; ability: AbilityId }
+  | { kind: 'revokeAbility'; ability: AbilityId }
+  | { kind: 'killAllEnemies' }
+  | { kind: 'collectAllOrbs' }
+
+export function applyDevCheat(world: GameWorld, cheat: DevCheat): void {
+  switch (cheat.kind) {
+    case 'grantAbility':
+      grantAbility(world.player, cheat.ability)
+      break
+    case 'revokeAbility':
+      revokeAbility(world.player, cheat.ability)
+      break
+    case 'killAllEnemies':
+      for (let i = 0; i < world.enemies.length; i += 1) world.enemies[i].alive = false
+      indexEnemies(world)
+      break
+    case 'collectAllOrbs':
+      for (let i = 0; i < world.orbs.length; i += 1) world.orbs[i].collected = true
+      break
+  }
+}
+
+function handleDamage(world: GameWorld, result: DamageResult): void {
+  if (result === 'hurt') world.events.push('hurt')
+  if (result === 'dead') {
+    world.dead = true
+    world.lives = Math.max(0, world.lives - 1)
+    world.events.push('death')
+  }
+}
+
+function handleBossHit(world: GameWorld, result: BossDamageResult): void {
+  if (result === 'hurt') world.events.push('zap')
+  if (result === 'phase') world.events.push('roar')
+  if (result === 'defeated') world.events.push('checkpoint')
+}
+
+function announceAbilities(world: GameWorld, unlocked: AbilityDefinition[]): void {
+  if (unlocked.length === 0) return
+  world.events.push('flight')
+  world.powerMsg = { name: unlocked[unlocked.length - 1].name, time: 2 }
+}
+
+// One fixed simulation tick
+export function stepWorld(world: GameWorld, inputs: WorldInputs, fixedDeltaSeconds: number): void {
+  const { player, level } = world
+  world.events.length = 0
+  if (inputs.cycleSpell) cycleSpell(world.caster)
+
+  if (inputs.restart) {
+    // Game over and playing again after a win start the whole level over
+    if (world.lives === 0 || world.won) resetWorld(world)
+    restartPlayer(world)
+    // Clear game over/win state when restarting
+    world.dead = false
+    world.won = false
+  }
+  world.tick += 1
+
+  // If dead or won, freeze gameplay
+  if (world.dead || world.won) return
+
+  // Move platforms first and carry whoever stands on them
+  const platforms = world.platforms
+  if (platforms.length > 0) {
+    updatePlatforms(platforms, fixedDeltaSeconds)
+    if (player.isOnGround && player.dropThroughTimer === 0) {
+      const ridden = platformUnder(platforms, player.positionX, player.width, player.positionY + player.height)
+      if (ridden !== -1) {
+        player.positionX += platforms[ridden].dx
+        player.positionY += platforms[ridden].dy
+      }
+    }
+    const list = world.enemies
+    for (let i = 0; i < list.length; i += 1) {
+      const e = list[i]
+      if (!e.alive) continue
+      const ridden = platformUnder(platforms, e.x, e.width, e.y + e.height)
+      if (ridden !== -1) {
+        e.x += platforms[ridden].dx
+        e.y += platforms[ridden].dy
+      }
+    }
+  }
+
+  tickInvulnerability(player, fixedDeltaSeconds)
+  const jumped = integratePlayer(level, player, inputs, fixedDeltaSeconds, physicsConstants, platforms)
+  if (jumped === 'jump' || jumped === 'doubleJump') world.events.push('jump')
+  if (jumped === 'dash') world.events.push('dash')
+  if (jumped === 'wallJump') {
+    world.events.push('wallJump')
+    world.wallKickTimer = 0.25
+  }
+
+  // Spells: holding the attack key casts again as soon as the cooldown allows
+  const caster = world.caster
+  tickCaster(caster, fixedDeltaSeconds)
+  if (inputs.attack && hasAbility(player, 'spells')) {
+    const projectile = castSpell(caster, player)
+    if (projectile) {
+      world.projectiles.push(projectile)
+      world.events.push('cast')
+    }
+  }
+  updateProjectiles(level, world.projectiles, fixedDeltaSeconds)
+  indexProjectiles(world)
+
+  // Falling out of the world always hurts (even while flashing) and
+  // puts the wizard back on the last solid ground
+  if (fellOutOfWorld(level, player)) {
+    player.invulnerableTimer = 0
+    const result = applyDamage(player, hazardDamage.fall, player.positionX)
+    handleDamage(world, result)
+    if (result === 'hurt') {
+      player.positionX = world.safeSpot.x
+      player.positionY = world.safeSpot.y
+      player.velocityX = 0
+      player.velocityY = 0
+    }
+  }
+
+  // Spike check near feet; knocked back the way the wizard came from
+  if (touchesSpike(player)) {
+    handleDamage(world, applyDamage(player, hazardDamage.spike, player.positionX + player.width / 2 + player.facing))
+  } else if (player.isOnGround && !player.onOneWay) {
+    world.safeSpot.x = player.positionX
+    world.safeSpot.y = player.positionY
+  }
+
+  // Orbs collection (only those within reach of the player's center)
+  const orbs = world.orbs
+  const centerX = player.positionX + player.width / 2
+  const centerY = player.positionY + player.height / 2
+  const nearOrbs = queryGrid(world.orbGrid, centerX - ORB_PICKUP_RANGE, centerY - ORB_PICKUP_RANGE, centerX + ORB_PICKUP_RANGE, centerY + ORB_PICKUP_RANGE)
+  for (let k = 0; k < nearOrbs.length; k += 1) {
+    const c = orbs[nearOrbs[k]]
+    if (c.collected) continue
+    const dx = centerX - c.x
+    const dy = centerY - c.y
+    if (dx * dx + dy * dy < (c.radius + ORB_PICKUP_RANGE) * (c.radius + ORB_PICKUP_RANGE)) {
+      c.collected = true
+      world.events.push('collect')
+    }
+  }
+
+  // Enemies update and collisions (simulate only near viewport; the index
+  // finds them without visiting the ones far away)
+  const enemies = world.enemies
+  const vxLeft = world.camera.x
+  const vxRight = world.camera.x + world.viewport.width
+  const nearEnemies = queryGrid(world.enemyGrid, vxLeft - ENEMY_WAKE_MARGIN, -Infinity, vxRight + ENEMY_WAKE_MARGIN, Infinity)
+  for (let k = 0; k < nearEnemies.length; k += 1) {
+    const e = enemies[nearEnemies[k]]
+    if (!e.alive) continue
+    if (e.x + e.width < vxLeft - ENEMY_WAKE_MARGIN || e.x > vxRight + ENEMY_WAKE_MARGIN) {
+      // Skip offscreen enemies to avoid unnecessary work far away
+      continue
+    }
+    updateEnemy(level, e, player, platforms, fixedDeltaSeconds, world.hazards)
+
+    // Player vs enemy
+    const overlap =
+      player.positionX < e.x + e.width &&
+      player.positionX + player.width > e.x &&
+      player.positionY < e.y + e.height &&
+      player.positionY + player.height > e.y
+    if (overlap) {
+      const playerBottomPrev = player.positionY - player.velocityY * fixedDeltaSeconds + player.height
+      const enemyTop = e.y
+      // Falling or dashing onto it from above
+      if ((player.velocityY > 50 || player.dashTimer > 0) && playerBottomPrev <= enemyTop + 6) {
+        // Stomp (ends a dash and gives it back)
+        e.alive = false
+        player.velocityY = physicsConstants.jumpBase * 0.55
+        player.dashTimer = 0
+        refillCharges(player, 'dash')
+        world.events.push('stomp')
+      } else {
+        handleDamage(world, applyDamage(player, enemyKind(e.type).damage, e.x + e.width / 2))
+      }
+    }
+  }
+
+  // Boss: wakes when the player enters its arena and walls them in until it falls
+  const boss = world.boss
+  if (boss) {
+    const event = updateBoss(boss, player, enemies, world.hazards, level.tileSize, fixedDeltaSeconds, world.rng)
+    if (event === 'engage' || event === 'summon') world.events.push('roar')
+    else if (event === 'volley') world.events.push('cast')
+    else if (event === 'charge') world.events.push('dash')
+    if (bossEngaged(boss)) {
+      if (player.positionX < boss.arenaLeft) {
+        player.positionX = boss.arenaLeft
+        player.velocityX = Math.max(0, player.velocityX)
+      } else if (player.positionX + player.width > boss.arenaRight) {
+        player.positionX = boss.arenaRight - player.width
+        player.velocityX = Math.min(0, player.velocityX)
+      }
+      if (overlapsBoss(boss, player.positionX, player.positionY, player.width, player.height)) {
+        const playerBottomPrev = player.positionY - player.velocityY * fixedDeltaSeconds + player.height
+        // Stomps work like on enemies but the boss survives them
+        if ((player.velocityY > 50 || player.dashTimer > 0) && playerBottomPrev <= boss.y + 8) {
+          player.velocityY = physicsConstants.jumpBase * 0.7
+          player.dashTimer = 0
+          refillCharges(player, 'dash')
+          world.events.push('stomp')
+          handleBossHit(world, damageBoss(boss, BOSS.stompDamage))
+        } else {
+          handleDamage(world, applyDamage(player, BOSS.contactDamage, boss.x + boss.width / 2))
+        }
+      }
+    }
+  }
+
+  // Enemies and summons are where they'll be for the rest of this tick
+  indexEnemies(world)
+
+  // Hazards: shots, spike traps and fire bars
+  const hazards = world.hazards
+  if (hazards.count > 0) {
+    updateHazards(level, hazards, player, fixedDeltaSeconds)
+    indexHazards(world)
+    const hit = hazardHittingPlayer(hazards, player, world.hazardGrid)
+    if (hit) handleDamage(world, applyDamage(player, hit.damage, hazardSourceX(hit)))
+  }
+
+  // Spell hits (after enemies moved so they can't slip through a bolt)
+  if (resolveSpellHits(world.projectiles, enemies, world.enemyGrid) > 0) world.events.push('zap')
+  if (boss) handleBossHit(world, resolveBossSpellHits(world.projectiles, boss))
+
+  // Ability unlocks (see ABILITIES) and pickups
+  announceAbilities(world, checkUnlocks(player, { enemiesAlive: enemiesAlive(world), orbsCollected: orbsCollected(world), totalOrbs: orbs.length }))
+  if (world.pickups.length > 0) announceAbilities(world, collectPickups(world.pickups, player))
+
+  // Tick power message timer
+  if (world.powerMsg.time > 0) {
+    world.powerMsg.time = Math.max(0, world.powerMsg.time - fixedDeltaSeconds)
+  }
+
+  // Checkpoints: the newest one touched becomes the respawn point
+  if (!world.dead) {
+    const checkpoints = world.checkpoints
+    const reached = touchedCheckpoint(checkpoints, player)
+    if (reached !== -1) {
+      for (let i = 0; i < checkpoints.length; i += 1) checkpoints[i].active = i === reached
+      world.snapshot = captureWorld(checkpoints, reached, player, world.orbs, world.enemies, world.pickups)
+      world.events.push('checkpoint')
+      world.checkpointMsgTimer = 1.5
+    }
+  }
+  if (world.checkpointMsgTimer > 0) {
+    world.checkpointMsgTimer = Math.max(0, world.checkpointMsgTimer - fixedDeltaSeconds)
+  }
+
+  // Win detection by touching flag (sealed while a boss still stands)
+  if (portalOpen(boss) && touchesPortal(player)) {
+    world.won = true
+    world.events.push('win')
+  }
+
+  // Camera follows player with smoothed velocity-based lead (avoid sign flip jitter)
+  const { width: viewportWidth, height: viewportHeight } = world.viewport
+  const maxLead = 120
+  const topSpeed = physicsConstants.baseMoveSpeed * physicsConstants.runMultiplier
+  const speedRatioRaw = topSpeed > 0 ? player.velocityX / topSpeed : 0
+  const speedRatio = Math.abs(player.velocityX) < 20 ? 0 : clamp(speedRatioRaw, -1, 1)
+  let desiredCamX = player.positionX - viewportWidth / 2 + maxLead * speedRatio
+  if (boss && bossEngaged(boss)) {
+    // Arena lock: stay inside it, or centered on it when it is narrower than the view
+    const arenaWidth = boss.arenaRight - boss.arenaLeft
+    desiredCamX =
+      arenaWidth <= viewportWidth
+        ? boss.arenaLeft - (viewportWidth - arenaWidth) / 2
+        : clamp(desiredCamX, boss.arenaLeft, boss.arenaRight - viewportWidth)
+  }
+  const smooth = 0.15
+  const smoothedX = world.camera.x + (desiredCamX - world.camera.x) * smooth
+  world.camera.x = Math.max(0, Math.floor(smoothedX))
+  world.camera.y = Math.max(0, Math.floor(player.positionY - viewportHeight / 2))
+
+  // Trail
+  const trail = world.trail
+  if (world.wallKickTimer > 0) world.wallKickTimer = Math.max(0, world.wallKickTimer - fixedDeltaSeconds)
+  let trailKind: TrailPoint['kind'] = 'move'
+  if (player.dashTimer > 0) trailKind = 'dash'
+  else if (player.wallSliding) trailKind = 'wallSlide'
+  else if (world.wallKickTimer > 0) trailKind = 'wallJump'
+  trail.push({ x: player.positionX, y: player.positionY, kind: trailKind, side: player.wallContact })
+  if (trail.length > TRAIL_MAX) trail.shift()
+
+  // Footsteps when running on ground
+  if (player.isOnGround && Math.abs(player.velocityX) > 40) {
+    world.footstepTimer += fixedDeltaSeconds
+    const stepInterval = inputs.run ? 0.18 : 0.24
+    if (world.footstepTimer >= stepInterval) {
+      world.footstepTimer = 0
+      world.events.push('runStep')
+    }
+  } else {
+    world.footstepTimer = 0
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import { T_BLOCK, T_EMPTY, T_FLAG, T_GROUND, T_ONEWAY, T_SLOPE_UP, T_SPIKE } from '../engine/level'
+import { DEFAULT_ASCII_LEGEND, parseAsciiLevel } from './asciiLevel'
+import { CAMPAIGN } from './campaign'
+import { LevelFileError } from './levelFile'
+
+// The issues parseAsciiLevel reports for `rows`
+function issuesFor(rows: string[], legend = DEFAULT_ASCII_LEGEND): string[] {
+  try {
+    parseAsciiLevel(rows.join('\n'), { legend })
+  } catch (err) {
+    if (err instanceof LevelFileError) return err.issues
+    throw err
+  }
+  throw new Error('parseAsciiLevel accepted the grid')
+}
+
+describe('parseAsciiLevel', () => {
+  it('parses the bundled campaign sketches', () => {
+    // campaign.ts parses them on import; a bad sketch would have thrown by now
+    expect(CAMPAIGN.map((entry) => entry.definition.name)).toContain('First Steps')
+  })
+
+  it('maps tile characters to tile codes', () => {
+    const def = parseAsciiLevel(['@....|', '.=-^/|', '######'].join('\n'))
+    expect(def.level.tiles).toEqual([
+      [T_EMPTY, T_EMPTY, T_EMPTY, T_EMPTY, T_EMPTY, T_FLAG],
+      [T_EMPTY, T_BLOCK, T_ONEWAY, T_SPIKE, T_SLOPE_UP, T_FLAG],
+      [T_GROUND, T_GROUND, T_GROUND, T_GROUND, T_GROUND, T_GROUND],
+    ])
+    expect(def.portal).toEqual({ col: 5, row: 1, height: 2 })
+  })
+
+  it('places entities relative to their cell', () => {
+    const def = parseAsciiLevel(['.......', '@o.tc+|', 'v*#####'].join('\n'), { tileSize: 16, name: 'Cells' })
+    expect(def.name).toBe('Cells')
+    // Spawn at the cell's top-left, orbs at its center
+    expect(def.spawn).toEqual({ x: 0, y: 16 })
+    expect(def.orbs).toEqual([{ x: 24, y: 24 }])
+    // Enemies, checkpoints and pickups stand on the row below
+    expect(def.enemies).toEqual([{ col: 3, row: 2, type: 'TRICK' }])
+    expect(def.checkpoints).toEqual([{ col: 4, row: 2 }])
+    expect(def.pickups).toEqual([{ col: 5, row: 2, ability: 'doubleJump' }])
+    // Traps keep their own cell, which stays empty
+    expect(def.hazards).toEqual([
+      { col: 0, row: 2, kind: 'spikeTrap' },
+      { col: 1, row: 2, kind: 'fireBar' },
+    ])
+    expect(def.level.tiles[2][0]).toBe(T_EMPTY)
+  })
+
+  it('pads short lines and drops blank lines around the grid', () => {
+    const def = parseAsciiLevel('\n\n@..|\n#\r\n####\n\n')
+    expect(def.level.tiles).toEqual([
+      [T_EMPTY, T_EMPTY, T_EMPTY, T_FLAG],
+      [T_GROUND, T_EMPTY, T_EMPTY, T_EMPTY],
+      [T_GROUND, T_GROUND, T_GROUND, T_GROUND],
+    ])
+  })
+
+  it('reads a custom legend', () => {
+    const legend = { ...DEFAULT_ASCII_LEGEND, X: T_GROUND, d: 'dash' as const }
+    const def = parseAsciiLevel(['@.d|', 'XXXX'].join('\n'), { legend })
+    expect(def.level.tiles[1]).toEqual([T_GROUND, T_GROUND, T_GROUND, T_GROUND])
+    expect(def.pickups).toEqual([{ col: 2, row: 1, ability: 'dash' }])
+  })
+
+  it('reports unknown characters by line and column', () => {
+    expect(issuesFor(['@..|', '#?##'])).toEqual(['line 2, column 2: unknown character "?"'])
+  })
+
+  it('needs exactly one spawn', () => {
+    expect(issuesFor(['...|', '####'])).toEqual(['spawn: no player spawn marker found'])
+    expect(issuesFor(['@.@|', '####'])).toEqual(['spawn: found 2 player spawn markers, expected exactly one'])
+  })
+
+  it('needs a row below anything that stands', () => {
+    expect(issuesFor(['@..|', '#t##'])).toEqual(['line 2, column 2: enemy needs a row below it to stand on'])
+  })
+
+  it('needs one unbroken portal column', () => {
+    expect(issuesFor(['@...', '####'])).toEqual(['portal: no portal tiles found'])
+    expect(issuesFor(['@.||', '####'])).toEqual(['portal: portal tiles must all be in one column'])
+    expect(issuesFor(['@..|', '....', '...|', '####'])).toEqual(['portal: column 4 has a gap between rows 1 and 3'])
+  })
+})
@@ -0,0 +1,169 @@
+import {
+  T_BLOCK,
+  T_EMPTY,
+  T_FLAG,
+  T_GROUND,
+  T_ONEWAY,
+  T_SLOPE_DOWN,
+  T_SLOPE_DOWN_HIGH,
+  T_SLOPE_DOWN_LOW,
+  T_SLOPE_UP,
+  T_SLOPE_UP_HIGH,
+  T_SLOPE_UP_LOW,
+  T_SPIKE,
+  bossSpecAt,
+  type BossSpec,
+  type CheckpointSpec,
+  type EnemySpawn,
+  type EnemyType,
+  type HazardSpec,
+  type LevelDefinition,
+  type OrbSpawn,
+  type PickupSpec,
+  type PortalSpec,
+} from '../engine/level'
+import { isAbilityId, type AbilityId } from '../engine/abilities'
+import { ENEMY_KINDS, ENEMY_TYPES } from '../engine/enemies'
+import { isTrapKind, type TrapKind } from '../engine/hazards'
+import { LevelFileError } from './levelFile'
+
+// Plain-text level grids. One character per tile, rows top to bottom:
+//
+//   .  empty          #  ground        =  block
+//   ^  spike          |  portal (one vertical column)
+//   -  one-way platform
+//   /  45° slope up   \  45° slope down
+//   r R  22.5° slope up (low then high half)
+//   F f  22.5° slope down (high then low half)
+//   o  orb            t  TRICK enemy   h  HYPER enemy
+//   s  STALKER  p  HOPPER  w  WISP  x  SPITTER (each enemy type's `ascii` marker)
+//   @  player spawn   c  checkpoint    +  double-jump pickup
+//   B  boss (its arena spans BOSS_ARENA_REACH columns either side)
+//   v  spike trap (hangs in its cell)   *  fire bar (spins around the cell)
+//
+// Entity markers occupy an empty cell: orbs sit at the cell center, enemies,
+// checkpoints, pickups and the boss stand on the tile below the marker and the player
+// spawns at the cell's top-left corner. Short lines are padded with empty tiles.
+// Traps stay in their own cell. An ability id in a custom legend places a
+// pickup for that ability.
+
+export type AsciiEntity = 'orb' | 'spawn' | 'checkpoint' | 'boss' | EnemyType | AbilityId | TrapKind
+
+export type AsciiLegend = Record<string, number | AsciiEntity>
+
+export const DEFAULT_ASCII_LEGEND: AsciiLegend = {
+  '.': T_EMPTY,
+  ' ': T_EMPTY,
+  '#': T_GROUND,
+  '=': T_BLOCK,
+  '^': T_SPIKE,
+  '-': T_ONEWAY,
+  '/': T_SLOPE_UP,
+  '\\': T_SLOPE_DOWN,
+  r: T_SLOPE_UP_LOW,
+  R: T_SLOPE_UP_HIGH,
+  F: T_SLOPE_DOWN_HIGH,
+  f: T_SLOPE_DOWN_LOW,
+  '|': T_FLAG,
+  o: 'orb',
+  ...Object.fromEntries(ENEMY_TYPES.map((type) => [ENEMY_KINDS[type].ascii, type])),
+  '@': 'spawn',
+  c: 'checkpoint',
+  '+': 'doubleJump',
+  B: 'boss',
+  v: 'spikeTrap',
+  '*': 'fireBar',
+}
+
+export type AsciiLevelOptions = {
+  name?: string
+  tileSize?: number
+  legend?: AsciiLegend
+}
+
+export function parseAsciiLevel(text: string, options: AsciiLevelOptions = {}): LevelDefinition {
+  const name = options.name || 'Untitled'
+  const tileSize = options.tileSize || 32
+  const legend = options.legend || DEFAULT_ASCII_LEGEND
+  const issues: string[] = []
+
+  // Drop leading/trailing blank lines but keep interior ones as empty rows
+  const lines = text.replace(/\r\n?/g, '\n').split('\n')
+  while (lines.length > 0 && lines[0].trim() === '') lines.shift()
+  while (lines.length > 0 && lines[lines.length - 1].trim() === '') lines.pop()
+  if (lines.length === 0) throw new LevelFileError(['grid: no rows found'])
+
+  const cols = lines.reduce((max, line) => Math.max(max, line.length), 0)
+  const tiles: number[][] = []
+  const orbs: OrbSpawn[] = []
+  const enemies: EnemySpawn[] = []
+  const checkpoints: CheckpointSpec[] = []
+  const pickups: PickupSpec[] = []
+  const spawns: { x: number; y: number }[] = []
+  const bosses: BossSpec[] = []
+  const hazards: HazardSpec[] = []
+  const flagCells: { col: number; row: number }[] = []
+
+  for (let r = 0; r < lines.length; r += 1) {
+    const line = lines[r]
+    const row: number[] = new Array(cols).fill(T_EMPTY)
+    for (let c = 0; c < line.length; c += 1) {
+      const ch = line[c]
+      const mapped = Object.prototype.hasOwnProperty.call(legend, ch) ? legend[ch] : undefined
+      if (mapped === undefined) {
+        issues.push(`line ${r + 1}, column ${c + 1}: unknown character ${JSON.stringify(ch)}`)
+      } else if (typeof mapped === 'number') {
+        row[c] = mapped
+        if (mapped === T_FLAG) flagCells.push({ col: c, row: r })
+      } else if (mapped === 'orb') {
+        orbs.push({ x: c * tileSize + tileSize / 2, y: r * tileSize + tileSize / 2 })
+      } else if (mapped === 'spawn') {
+        spawns.push({ x: c * tileSize, y: r * tileSize })
+      } else if (isTrapKind(mapped)) {
+        hazards.push({ col: c, row: r, kind: mapped })
+      } else if (r + 1 >= lines.length) {
+        const what = mapped === 'checkpoint' || mapped === 'boss' ? mapped : isAbilityId(mapped) ? 'pickup' : 'enemy'
+        issues.push(`line ${r + 1}, column ${c + 1}: ${what} needs a row below it to stand on`)
+      } else if (mapped === 'checkpoint') {
+        checkpoints.push({ col: c, row: r + 1 })
+      } else if (mapped === 'boss') {
+        bosses.push(bossSpecAt(c, r + 1, cols))
+      } else if (isAbilityId(mapped)) {
+        pickups.push({ col: c, row: r + 1, ability: mapped })
+      } else {
+        enemies.push({ col: c, row: r + 1, type: mapped })
+      }
+    }
+    tiles.push(row)
+  }
+
+  if (spawns.length === 0) issues.push('spawn: no player spawn marker found')
+  if (spawns.length > 1) issues.push(`spawn: found ${spawns.length} player spawn markers, expected exactly one`)
+  if (bosses.length > 1) issues.push(`boss: found ${bosses.length} boss markers, expected at most one`)
+
+  const portal = portalFromFlagCells(flagCells, issues)
+
+  if (issues.length > 0 || !portal) throw new LevelFileError(issues)
+  return { name, level: { tiles, tileSize }, spawn: spawns[0], orbs, enemies, checkpoints, platforms: [], pickups, hazards, boss: bosses.length > 0 ? bosses[0] : null, portal }
+}
+
+// The portal must be a single unbroken vertical run of flag tiles
+function portalFromFlagCells(cells: { col: number; row: number }[], issues: string[]): PortalSpec | null {
+  if (cells.length === 0) {
+    issues.push('portal: no portal tiles found')
+    return null
+  }
+  const col = cells[0].col
+  if (cells.some((cell) => cell.col !== col)) {
+    issues.push('portal: portal tiles must all be in one column')
+    return null
+  }
+  const rows = cells.map((cell) => cell.row).sort((a, b) => a - b)
+  for (let i = 1; i < rows.length; i += 1) {
+    if (rows[i] !== rows[i - 1] + 1) {
+      issues.push(`portal: column ${col + 1} has a gap between rows ${rows[i - 1] + 1} and ${rows[i] + 1}`)
+      return null
+    }
+  }
+  return { col, row: rows[rows.length - 1], height: rows.length }
+}
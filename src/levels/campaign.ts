@@ -0,0 +1,17 @@
+import type { LevelDefinition } from '../engine/level'
+import { parseAsciiLevel } from './asciiLevel'
+import { baselineLevel } from '.'
+import firstSteps from './first-steps.txt?raw'
+import spikeGarden from './spike-garden.txt?raw'
+
+export type CampaignLevel = {
+  id: string
+  definition: LevelDefinition
+}
+
+// Ordered campaign; reaching a level's portal unlocks the next entry
+export const CAMPAIGN: readonly CampaignLevel[] = [
+  { id: 'first-steps', definition: parseAsciiLevel(firstSteps, { name: 'First Steps' }) },
+  { id: 'spike-garden', definition: parseAsciiLevel(spikeGarden, { name: 'Spike Garden' }) },
+  { id: 'long-warp', definition: baselineLevel },
+]
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+import { applyTool, createBlankLevel } from './editing'
+import { loadLevelFile, serializeLevelFile } from './levelFile'
+
+describe('platform tool', () => {
+  it('shuttles four tiles to the right in open space', () => {
+    const def = createBlankLevel(20, 8)
+    expect(applyTool(def, { kind: 'platform' }, 5, 4)).toBe(true)
+    expect(def.platforms[0]).toMatchObject({ col: 5, row: 4, width: 3, path: [{ col: 9, row: 4 }] })
+  })
+
+  it('stops the path short of the right edge so the level still loads', () => {
+    const def = createBlankLevel(20, 8)
+    expect(applyTool(def, { kind: 'platform' }, 15, 4)).toBe(true)
+    expect(def.platforms[0].path).toEqual([{ col: 17, row: 4 }])
+    expect(loadLevelFile(serializeLevelFile(def)).platforms).toEqual(def.platforms)
+  })
+
+  it('is refused where the platform has no room to travel', () => {
+    const def = createBlankLevel(20, 8)
+    let calls = 0
+    expect(applyTool(def, { kind: 'platform' }, 17, 4, () => (calls += 1))).toBe(false)
+    expect(applyTool(def, { kind: 'platform' }, 19, 4, () => (calls += 1))).toBe(false)
+    expect(def.platforms).toHaveLength(0)
+    expect(calls).toBe(0)
+  })
+})
@@ -0,0 +1,244 @@
+import {
+  T_EMPTY,
+  T_FLAG,
+  T_GROUND,
+  cloneLevelDefinition,
+  isSolidTile,
+  isStandableTile,
+  levelCols,
+  levelRows,
+  bossSpecAt,
+  stampPortal,
+  type EnemyType,
+  type LevelDefinition,
+} from '../engine/level'
+import type { AbilityId } from '../engine/abilities'
+import type { TrapKind } from '../engine/hazards'
+
+// Pure edit operations used by the level editor. Each one mutates the given
+// definition in place and returns whether anything changed. `beforeChange`
+// runs right before the first mutation (never for a no-op), so callers can
+// snapshot for undo only when an edit really happens.
+
+export type EditorTool =
+  | { kind: 'tile'; tile: number }
+  | { kind: 'orb' }
+  | { kind: 'enemy'; type: EnemyType }
+  | { kind: 'checkpoint' }
+  | { kind: 'platform' }
+  | { kind: 'pickup'; ability: AbilityId }
+  | { kind: 'hazard'; hazard: TrapKind }
+  | { kind: 'boss' }
+  | { kind: 'spawn' }
+  | { kind: 'portal' }
+
+const HISTORY_LIMIT = 100
+
+// Working copy plus undo/redo snapshots; lives outside the editor component so
+// a play-test round trip keeps the history
+export type EditorSession = {
+  definition: LevelDefinition
+  undoStack: LevelDefinition[]
+  redoStack: LevelDefinition[]
+}
+
+export function createEditorSession(source: LevelDefinition): EditorSession {
+  return { definition: cloneLevelDefinition(source), undoStack: [], redoStack: [] }
+}
+
+export function replaceSessionLevel(session: EditorSession, next: LevelDefinition): void {
+  pushUndo(session)
+  session.definition = cloneLevelDefinition(next)
+}
+
+// Call once before a stroke; the whole stroke then undoes as a single step
+export function pushUndo(session: EditorSession): void {
+  session.undoStack.push(cloneLevelDefinition(session.definition))
+  if (session.undoStack.length > HISTORY_LIMIT) session.undoStack.shift()
+  session.redoStack = []
+}
+
+export function undo(session: EditorSession): boolean {
+  const prev = session.undoStack.pop()
+  if (!prev) return false
+  session.redoStack.push(session.definition)
+  session.definition = prev
+  return true
+}
+
+export function redo(session: EditorSession): boolean {
+  const next = session.redoStack.pop()
+  if (!next) return false
+  session.undoStack.push(session.definition)
+  session.definition = next
+  return true
+}
+
+export function createBlankLevel(cols = 120, rows = 16, tileSize = 32): LevelDefinition {
+  const tiles: number[][] = Array.from({ length: rows }, () => new Array(cols).fill(T_EMPTY))
+  tiles[rows - 1].fill(T_GROUND)
+  const portal = { col: cols - 4, row: rows - 2, height: 3 }
+  const level = { tiles, tileSize }
+  stampPortal(level, portal)
+  return { name: 'Untitled', level, spawn: { x: 2 * tileSize, y: 2 * tileSize }, orbs: [], enemies: [], checkpoints: [], platforms: [], pickups: [], hazards: [], boss: null, portal }
+}
+
+function inGrid(def: LevelDefinition, col: number, row: number): boolean {
+  return row >= 0 && row < levelRows(def.level) && col >= 0 && col < levelCols(def.level)
+}
+
+function noChangeHook(): void {}
+
+export function applyTool(def: LevelDefinition, tool: EditorTool, col: number, row: number, beforeChange: () => void = noChangeHook): boolean {
+  if (!inGrid(def, col, row)) return false
+  const { tiles, tileSize } = def.level
+  switch (tool.kind) {
+    case 'tile': {
+      // Portal tiles are owned by the portal tool
+      if (tiles[row][col] === T_FLAG || tiles[row][col] === tool.tile) return false
+      beforeChange()
+      tiles[row][col] = tool.tile
+      return true
+    }
+    case 'orb': {
+      if (orbIndexAt(def, col, row) !== -1) return false
+      beforeChange()
+      def.orbs.push({ x: col * tileSize + tileSize / 2, y: row * tileSize + tileSize / 2 })
+      return true
+    }
+    case 'enemy': {
+      if (row + 1 >= levelRows(def.level)) return false
+      const existing = def.enemies.find((e) => e.col === col && e.row === row + 1)
+      if (existing) {
+        if (existing.type === tool.type) return false
+        beforeChange()
+        existing.type = tool.type
+        return true
+      }
+      beforeChange()
+      def.enemies.push({ col, row: row + 1, type: tool.type })
+      return true
+    }
+    case 'checkpoint': {
+      if (row + 1 >= levelRows(def.level)) return false
+      if (def.checkpoints.some((c) => c.col === col && c.row === row + 1)) return false
+      beforeChange()
+      def.checkpoints.push({ col, row: row + 1 })
+      return true
+    }
+    case 'platform': {
+      // A three-tile platform shuttling up to four tiles to the right; tweak
+      // the path in the level file for anything fancier
+      const width = 3
+      const endCol = Math.min(col + 4, levelCols(def.level) - width)
+      // No room to travel before the right edge
+      if (endCol <= col) return false
+      if (def.platforms.some((p) => p.row === row && col >= p.col && col < p.col + p.width)) return false
+      beforeChange()
+      def.platforms.push({ col, row, width, path: [{ col: endCol, row }], speed: 2 })
+      return true
+    }
+    case 'pickup': {
+      if (row + 1 >= levelRows(def.level)) return false
+      const existing = def.pickups.find((u) => u.col === col && u.row === row + 1)
+      if (existing) {
+        if (existing.ability === tool.ability) return false
+        beforeChange()
+        existing.ability = tool.ability
+        return true
+      }
+      beforeChange()
+      def.pickups.push({ col, row: row + 1, ability: tool.ability })
+      return true
+    }
+    case 'hazard': {
+      const existing = def.hazards.find((h) => h.col === col && h.row === row)
+      if (existing) {
+        if (existing.kind === tool.hazard) return false
+        beforeChange()
+        existing.kind = tool.hazard
+        return true
+      }
+      beforeChange()
+      def.hazards.push({ col, row, kind: tool.hazard })
+      return true
+    }
+    case 'boss': {
+      // One boss per level: placing it again moves it, arena and all
+      if (row + 1 >= levelRows(def.level)) return false
+      if (def.boss && def.boss.col === col && def.boss.row === row + 1) return false
+      beforeChange()
+      def.boss = bossSpecAt(col, row + 1, levelCols(def.level))
+      return true
+    }
+    case 'spawn': {
+      const x = col * tileSize
+      const y = row * tileSize
+      if (def.spawn.x === x && def.spawn.y === y) return false
+      beforeChange()
+      def.spawn = { x, y }
+      return true
+    }
+    case 'portal': {
+      const { portal } = def
+      if (portal.col === col && portal.row === row) return false
+      beforeChange()
+      const height = Math.min(portal.height, row + 1)
+      for (let i = 0; i < portal.height; i += 1) {
+        const r = portal.row - i
+        if (inGrid(def, portal.col, r) && tiles[r][portal.col] === T_FLAG) tiles[r][portal.col] = T_EMPTY
+      }
+      def.portal = { col, row, height }
+      stampPortal(def.level, def.portal)
+      return true
+    }
+  }
+}
+
+// Remove orbs, enemies, checkpoints, platforms, pickups, traps and the boss placed in the given cell (spawn and portal always stay)
+export function removeEntitiesAt(def: LevelDefinition, col: number, row: number, beforeChange: () => void = noChangeHook): boolean {
+  const ts = def.level.tileSize
+  const orbHere = (o: { x: number; y: number }) => Math.floor(o.x / ts) === col && Math.floor(o.y / ts) === row
+  // Enemies, checkpoints, pickups and the boss stand on the row below the cell
+  const standsHere = (e: { col: number; row: number }) => e.col === col && e.row - 1 === row
+  const platformHere = (p: { col: number; row: number; width: number }) => p.row === row && col >= p.col && col < p.col + p.width
+  const hazardHere = (h: { col: number; row: number }) => h.col === col && h.row === row
+  const bossHere = def.boss !== null && standsHere(def.boss)
+  const anything =
+    bossHere ||
+    def.orbs.some(orbHere) ||
+    def.enemies.some(standsHere) ||
+    def.checkpoints.some(standsHere) ||
+    def.platforms.some(platformHere) ||
+    def.pickups.some(standsHere) ||
+    def.hazards.some(hazardHere)
+  if (!anything) return false
+  beforeChange()
+  def.orbs = def.orbs.filter((o) => !orbHere(o))
+  def.enemies = def.enemies.filter((e) => !standsHere(e))
+  def.checkpoints = def.checkpoints.filter((c) => !standsHere(c))
+  def.platforms = def.platforms.filter((p) => !platformHere(p))
+  def.pickups = def.pickups.filter((u) => !standsHere(u))
+  def.hazards = def.hazards.filter((h) => !hazardHere(h))
+  if (bossHere) def.boss = null
+  return true
+}
+
+function orbIndexAt(def: LevelDefinition, col: number, row: number): number {
+  const ts = def.level.tileSize
+  return def.orbs.findIndex((o) => Math.floor(o.x / ts) === col && Math.floor(o.y / ts) === row)
+}
+
+// Spawn point for "play-test from here": the first standable cell in `col`,
+// scanning down from the top. Falls back to the level's own spawn.
+export function spawnForColumn(def: LevelDefinition, col: number): { x: number; y: number } {
+  const { tiles, tileSize } = def.level
+  const rows = levelRows(def.level)
+  const c = Math.max(0, Math.min(levelCols(def.level) - 1, col))
+  for (let r = 0; r < rows - 1; r += 1) {
+    if (!isSolidTile(tiles[r][c]) && isStandableTile(tiles[r + 1][c])) {
+      return { x: c * tileSize, y: r * tileSize }
+    }
+  }
+  return { ...def.spawn }
+}
@@ -0,0 +1,180 @@
+import {
+  T_BLOCK,
+  T_EMPTY,
+  T_GROUND,
+  T_SPIKE,
+  stampPortal,
+  type CheckpointSpec,
+  type EnemySpawn,
+  type LevelDefinition,
+  type OrbSpawn,
+} from '../engine/level'
+import { physicsConstants, type PhysicsConstants } from '../engine/physics'
+import { chance, createRng, hashSeed, randInt, type Rng } from '../engine/rng'
+import { isLevelCompletable } from '../engine/traversal'
+
+// Seeded procedural levels. The same seed and difficulty always produce the
+// same level; every result is checked against the real jump physics before it
+// is handed out.
+
+const ROWS = 16
+const TILE_SIZE = 32
+const MAX_ATTEMPTS = 8
+// Ground surface can rise and fall between these rows
+const HIGHEST_GROUND_ROW = 9
+const LOWEST_GROUND_ROW = ROWS - 2
+// Minimum distance between checkpoints, in columns
+const CHECKPOINT_SPACING = 60
+
+export type GeneratedLevel = LevelDefinition & { seed: string; difficulty: number }
+
+// Jump reach in tiles, derived from the physics constants with a safety margin
+export function jumpLimits(constants: PhysicsConstants = physicsConstants): { maxGap: number; maxStep: number } {
+  const jumpSpeed = -(constants.jumpBase + constants.jumpRunBoost)
+  const airtime = (2 * jumpSpeed) / constants.gravity
+  const runDistance = constants.baseMoveSpeed * constants.runMultiplier * airtime
+  const height = (jumpSpeed * jumpSpeed) / (2 * constants.gravity)
+  return {
+    maxGap: Math.max(2, Math.floor((runDistance / TILE_SIZE) * 0.55)),
+    maxStep: Math.max(1, Math.floor((height / TILE_SIZE) * 0.65)),
+  }
+}
+
+type Builder = {
+  rng: Rng
+  difficulty: number
+  tiles: number[][]
+  cols: number
+  col: number
+  groundRow: number
+  orbs: OrbSpawn[]
+  enemies: EnemySpawn[]
+  checkpoints: CheckpointSpec[]
+  lastCheckpointCol: number
+}
+
+function fillGround(b: Builder, width: number): void {
+  for (let i = 0; i < width && b.col < b.cols; i += 1) {
+    for (let r = b.groundRow; r < ROWS; r += 1) b.tiles[r][b.col] = T_GROUND
+    b.col += 1
+  }
+}
+
+function orbAt(b: Builder, col: number, row: number): void {
+  b.orbs.push({ x: col * TILE_SIZE + TILE_SIZE / 2, y: row * TILE_SIZE + TILE_SIZE / 2 })
+}
+
+function segmentFlat(b: Builder): void {
+  const width = randInt(b.rng, 4, 10)
+  const start = b.col
+  fillGround(b, width)
+  if (start - b.lastCheckpointCol >= CHECKPOINT_SPACING) {
+    b.checkpoints.push({ col: start + 1, row: b.groundRow })
+    b.lastCheckpointCol = start + 1
+  }
+  if (width >= 6 && chance(b.rng, 0.25 + b.difficulty * 0.5)) {
+    const type = chance(b.rng, 0.3 + b.difficulty * 0.4) ? 'HYPER' : 'TRICK'
+    b.enemies.push({ col: start + Math.floor(width / 2), row: b.groundRow, type })
+  }
+  if (chance(b.rng, 0.5)) {
+    for (let c = start + 1; c < b.col - 1; c += 2) orbAt(b, c, b.groundRow - 1)
+  }
+}
+
+function segmentPit(b: Builder, maxGap: number): void {
+  const gap = randInt(b.rng, 2, Math.max(2, Math.round(2 + (maxGap - 2) * b.difficulty)))
+  fillGround(b, 3)
+  const gapStart = b.col
+  b.col = Math.min(b.cols, b.col + gap)
+  // Orb arc over the gap
+  for (let c = gapStart; c < b.col; c += 1) orbAt(b, c, b.groundRow - 2)
+  fillGround(b, 3)
+}
+
+function segmentStep(b: Builder, maxStep: number): void {
+  const up = chance(b.rng, 0.5)
+  const delta = randInt(b.rng, 1, maxStep) * (up ? -1 : 1)
+  b.groundRow = Math.max(HIGHEST_GROUND_ROW, Math.min(LOWEST_GROUND_ROW, b.groundRow + delta))
+  fillGround(b, randInt(b.rng, 3, 6))
+}
+
+function segmentSpikes(b: Builder, maxGap: number): void {
+  const run = randInt(b.rng, 1, Math.max(1, Math.round(1 + (maxGap - 2) * b.difficulty)))
+  fillGround(b, 3)
+  for (let i = 0; i < run && b.col < b.cols; i += 1) {
+    for (let r = b.groundRow + 1; r < ROWS; r += 1) b.tiles[r][b.col] = T_GROUND
+    b.tiles[b.groundRow][b.col] = T_SPIKE
+    b.col += 1
+  }
+  fillGround(b, 3)
+}
+
+// A wide pit bridged by a floating block platform
+function segmentPlatforms(b: Builder, maxGap: number): void {
+  fillGround(b, 3)
+  const hop = Math.max(2, maxGap - 1)
+  const platformWidth = randInt(b.rng, 3, 5)
+  const platformRow = b.groundRow - randInt(b.rng, 1, 2)
+  b.col = Math.min(b.cols, b.col + hop)
+  for (let i = 0; i < platformWidth && b.col < b.cols; i += 1) {
+    b.tiles[platformRow][b.col] = T_BLOCK
+    orbAt(b, b.col, platformRow - 1)
+    b.col += 1
+  }
+  b.col = Math.min(b.cols, b.col + hop)
+  fillGround(b, 3)
+}
+
+function buildLevel(rng: Rng, name: string, difficulty: number, constants: PhysicsConstants, safe: boolean): LevelDefinition {
+  const cols = 100 + Math.round(difficulty * 100)
+  const tiles: number[][] = Array.from({ length: ROWS }, () => new Array(cols).fill(T_EMPTY))
+  const b: Builder = {
+    rng,
+    difficulty,
+    tiles,
+    cols,
+    col: 0,
+    groundRow: LOWEST_GROUND_ROW,
+    orbs: [],
+    enemies: [],
+    checkpoints: [],
+    lastCheckpointCol: 0,
+  }
+  const { maxGap, maxStep } = jumpLimits(constants)
+
+  fillGround(b, 10)
+  const spawn = { x: 2 * TILE_SIZE, y: (b.groundRow - 2) * TILE_SIZE }
+  while (b.col < cols - 14) {
+    const roll = rng()
+    if (safe || roll < 0.3) segmentFlat(b)
+    else if (roll < 0.5) segmentPit(b, maxGap)
+    else if (roll < 0.65) segmentStep(b, maxStep)
+    else if (roll < 0.85) segmentSpikes(b, maxGap)
+    else segmentPlatforms(b, maxGap)
+  }
+  // Finish on the lowest ground so the portal always has room above it
+  b.groundRow = LOWEST_GROUND_ROW
+  fillGround(b, cols - b.col)
+  const portal = { col: cols - 6, row: LOWEST_GROUND_ROW - 1, height: 3 }
+  const level = { tiles, tileSize: TILE_SIZE }
+  stampPortal(level, portal)
+  return { name, level, spawn, orbs: b.orbs, enemies: b.enemies, checkpoints: b.checkpoints, platforms: [], pickups: [], hazards: [], boss: null, portal }
+}
+
+export function generateLevel(
+  seed: string,
+  difficulty: number,
+  constants: PhysicsConstants = physicsConstants
+): GeneratedLevel {
+  const d = Math.max(0, Math.min(1, difficulty))
+  const rng = createRng(hashSeed(`${seed}:${d.toFixed(2)}`))
+  const name = `Hyperspace ${seed}`
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt += 1) {
+    const def = buildLevel(rng, name, d, constants, false)
+    if (isLevelCompletable(def, constants)) return { ...def, seed, difficulty: d }
+  }
+  // Extremely unlikely: fall back to a hazard-free layout rather than hand out a broken level
+  const def = buildLevel(rng, name, d, constants, true)
+  if (!isLevelCompletable(def, constants)) throw new Error(`Generator could not build a completable level for seed "${seed}"`)
+  return { ...def, seed, difficulty: d }
+}
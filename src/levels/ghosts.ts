@@ -0,0 +1,49 @@
+import type { GhostRun } from '../engine/ghost'
+import type { LevelDefinition } from '../engine/level'
+import { hashSeed } from '../engine/rng'
+import { encodeLevelLink } from './levelLink'
+
+// Best run per campaign level persisted in localStorage, one entry per level
+// id so the ghosts never outgrow the handful of campaign levels. Each entry
+// remembers the level's content, so a changed level starts without a ghost.
+const STORAGE_PREFIX = 'hyperwizard.ghost.v2.'
+// Earlier builds kept a ghost per level content for every level played
+const LEGACY_PREFIX = 'hyperwizard.ghost.v1.'
+
+function contentKey(def: LevelDefinition): string {
+  return hashSeed(encodeLevelLink(def)).toString(36)
+}
+
+export function loadGhost(id: string, def: LevelDefinition): GhostRun | null {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_PREFIX + id)
+    if (!raw) return null
+    const data: unknown = JSON.parse(raw)
+    if (typeof data !== 'object' || data === null) return null
+    const { level, ticks, path } = data as GhostRun & { level: unknown }
+    if (level !== contentKey(def)) return null
+    if (Number.isInteger(ticks) && ticks > 0 && Array.isArray(path) && path.length === ticks * 2 && path.every(Number.isFinite)) {
+      return { ticks, path }
+    }
+  } catch {
+    // Storage disabled or corrupt entry: race without a ghost
+  }
+  return null
+}
+
+export function saveGhost(id: string, def: LevelDefinition, run: GhostRun): void {
+  try {
+    const storage = window.localStorage
+    dropLegacyGhosts(storage)
+    storage.setItem(STORAGE_PREFIX + id, JSON.stringify({ level: contentKey(def), ticks: run.ticks, path: run.path }))
+  } catch {
+    // Storage full or disabled; the ghost just won't persist
+  }
+}
+
+function dropLegacyGhosts(storage: Storage): void {
+  for (let i = storage.length - 1; i >= 0; i -= 1) {
+    const key = storage.key(i)
+    if (key !== null && key.startsWith(LEGACY_PREFIX)) storage.removeItem(key)
+  }
+}
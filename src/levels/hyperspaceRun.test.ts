@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest'
+import { runHash, runSeedFromHash } from './hyperspaceRun'
+
+describe('run links', () => {
+  it('round-trip a seed through the hash', () => {
+    expect(runSeedFromHash(runHash('cosmic-42'))).toBe('cosmic-42')
+  })
+
+  it('ignore other hashes and seeds outside the allowed alphabet', () => {
+    expect(runSeedFromHash('#level=abc')).toBeNull()
+    expect(runSeedFromHash('#run=')).toBeNull()
+    expect(runSeedFromHash('#run=a%20b')).toBeNull()
+    expect(runSeedFromHash(`#run=${'x'.repeat(33)}`)).toBeNull()
+  })
+
+  it('reject malformed percent-escapes instead of throwing', () => {
+    expect(() => runSeedFromHash('#run=%E0%A4%A')).not.toThrow()
+    expect(runSeedFromHash('#run=%E0%A4%A')).toBeNull()
+    expect(runSeedFromHash('#run=%')).toBeNull()
+  })
+})
@@ -0,0 +1,31 @@
+import { generateLevel, type GeneratedLevel } from './generator'
+
+// Endless "hyperspace run": an unbounded chain of generated stages that get
+// harder as you go. A run is fully described by its seed, so sharing the seed
+// (or the #run=<seed> link) reproduces every stage.
+
+const RUN_HASH_PREFIX = '#run='
+
+export function difficultyForStage(stage: number): number {
+  return Math.min(1, 0.15 + stage * 0.1)
+}
+
+export function runStageLevel(seed: string, stage: number): GeneratedLevel {
+  return generateLevel(`${seed}/${stage + 1}`, difficultyForStage(stage))
+}
+
+export function runSeedFromHash(hash: string): string | null {
+  if (!hash.startsWith(RUN_HASH_PREFIX)) return null
+  let seed: string
+  try {
+    seed = decodeURIComponent(hash.slice(RUN_HASH_PREFIX.length)).trim()
+  } catch {
+    // Malformed percent-escapes (a mangled paste); treat like any bad seed
+    return null
+  }
+  return /^[\w-]{1,32}$/.test(seed) ? seed : null
+}
+
+export function runHash(seed: string): string {
+  return `${RUN_HASH_PREFIX}${encodeURIComponent(seed)}`
+}
@@ -0,0 +1,6 @@
+import type { LevelDefinition } from '../engine/level'
+import { parseLevelFile } from './levelFile'
+import baselineJson from './baseline.json'
+
+// Built-in levels, validated once at module load so a broken file fails loudly
+export const baselineLevel: LevelDefinition = parseLevelFile(baselineJson)
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest'
+import { T_FLAG, T_GROUND } from '../engine/level'
+import { baselineLevel } from '.'
+import { LEVEL_FORMAT, LEVEL_FORMAT_VERSION, LevelFileError, loadLevelFile, parseLevelFile, serializeLevelFile } from './levelFile'
+
+// 4×3 tiles: open air over a ground row, portal in the last column
+function tinyFile(): Record<string, unknown> {
+  return {
+    format: LEVEL_FORMAT,
+    version: LEVEL_FORMAT_VERSION,
+    name: 'Tiny',
+    tileSize: 32,
+    tiles: [
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+      [1, 1, 1, 1],
+    ],
+    spawn: { x: 0, y: 0 },
+    orbs: [{ x: 48, y: 16 }],
+    enemies: [{ col: 2, row: 2, type: 'TRICK' }],
+    portal: { col: 3, row: 1, height: 2 },
+  }
+}
+
+// The issues parseLevelFile reports for the tiny file with `changes` applied
+function issuesFor(changes: Record<string, unknown>): string[] {
+  try {
+    parseLevelFile({ ...tinyFile(), ...changes })
+  } catch (err) {
+    if (err instanceof LevelFileError) return err.issues
+    throw err
+  }
+  throw new Error('parseLevelFile accepted the file')
+}
+
+describe('parseLevelFile', () => {
+  it('loads a valid file and stamps the portal into the grid', () => {
+    const def = parseLevelFile(tinyFile())
+    expect(def.name).toBe('Tiny')
+    expect(def.level.tiles[2]).toEqual([T_GROUND, T_GROUND, T_GROUND, T_GROUND])
+    expect([def.level.tiles[0][3], def.level.tiles[1][3]]).toEqual([T_FLAG, T_FLAG])
+    expect(def.enemies).toEqual([{ col: 2, row: 2, type: 'TRICK' }])
+  })
+
+  it('treats the later optional lists as empty when a file leaves them out', () => {
+    const def = parseLevelFile(tinyFile())
+    expect([def.checkpoints, def.platforms, def.pickups, def.hazards]).toEqual([[], [], [], []])
+    expect(def.boss).toBeNull()
+  })
+
+  it('rejects anything but an object', () => {
+    expect(() => parseLevelFile([])).toThrow('root: expected an object')
+    expect(() => parseLevelFile(null)).toThrow(LevelFileError)
+  })
+
+  it('lists every header problem at once', () => {
+    expect(issuesFor({ format: 'other', version: 2, name: ' ', tileSize: 0 })).toEqual([
+      'format: expected "hyperwizard-level"',
+      'version: unsupported version 2 (expected 1)',
+      'name: expected a non-empty string',
+      'tileSize: expected a positive integer',
+    ])
+  })
+
+  it('rejects ragged rows and unknown tile codes', () => {
+    expect(issuesFor({ tiles: [[0, 0, 0, 0], [0, 0, 0], [1, 1, 1, 99]] })).toEqual([
+      'tiles[1]: has 3 columns, expected 4',
+      'tiles[2][3]: unknown tile code 99',
+    ])
+  })
+
+  it('rejects entities outside the world', () => {
+    expect(issuesFor({ spawn: { x: 200, y: 0 } })).toEqual(['spawn: (200, 0) is outside the 128x96 world'])
+    expect(issuesFor({ orbs: [{ x: -1, y: 16 }] })).toEqual(['orbs[0]: (-1, 16) is outside the world'])
+    // Enemies stand on a row, so row 0 has nothing above it for them
+    expect(issuesFor({ enemies: [{ col: 1, row: 0, type: 'TRICK' }] })).toEqual(['enemies[0]: tile (1, 0) is outside the grid'])
+    expect(issuesFor({ hazards: [{ col: 4, row: 1, kind: 'fireBar' }] })).toEqual(['hazards[0]: tile (4, 1) is outside the grid'])
+  })
+
+  it('names the expected values for unknown types', () => {
+    const [enemy] = issuesFor({ enemies: [{ col: 1, row: 2, type: 'DRAGON' }] })
+    expect(enemy).toMatch(/^enemies\[0\]\.type: expected one of TRICK, .*got "DRAGON"$/)
+    const [pickup] = issuesFor({ pickups: [{ col: 1, row: 2, ability: 'teleport' }] })
+    expect(pickup).toMatch(/^pickups\[0\]\.ability: expected one of /)
+  })
+
+  it('rejects platforms that leave the grid and arenas that miss the boss', () => {
+    expect(issuesFor({ platforms: [{ col: 0, row: 1, width: 2, speed: 1, path: [{ col: 4, row: 1 }] }] })).toEqual([
+      'platforms[0]: start or path leaves the grid',
+    ])
+    expect(issuesFor({ boss: { col: 1, row: 2, arenaFrom: 2, arenaTo: 3 } })).toEqual(['boss: arenaFrom..arenaTo must include the boss column'])
+  })
+
+  it('rejects a portal column that pokes out of the top', () => {
+    expect(issuesFor({ portal: { col: 3, row: 1, height: 3 } })).toEqual(['portal: column 3 rows -1..1 is outside the grid'])
+  })
+})
+
+describe('level file text', () => {
+  it('round-trips the bundled level through serializeLevelFile', () => {
+    expect(loadLevelFile(serializeLevelFile(baselineLevel))).toEqual(baselineLevel)
+  })
+
+  it('reports JSON syntax errors as level file issues', () => {
+    expect(() => loadLevelFile('{ "format": ')).toThrow(/json: /)
+  })
+})
@@ -0,0 +1,342 @@
+import {
+  TILE_CODES,
+  T_EMPTY,
+  T_FLAG,
+  stampPortal,
+  type BossSpec,
+  type CheckpointSpec,
+  type EnemySpawn,
+  type HazardSpec,
+  type LevelDefinition,
+  type OrbSpawn,
+  type PickupSpec,
+  type PlatformSpec,
+  type PortalSpec,
+} from '../engine/level'
+import { ABILITIES, isAbilityId } from '../engine/abilities'
+import { ENEMY_TYPES, isEnemyType } from '../engine/enemies'
+import { TRAP_KINDS, isTrapKind } from '../engine/hazards'
+
+// Versioned JSON level format
+//
+// {
+//   "format": "hyperwizard-level",
+//   "version": 1,
+//   "name": "Baseline",
+//   "tileSize": 32,
+//   "tiles": [[0, 0, ...], ...],           // rows top to bottom, T_* codes
+//   "spawn": { "x": 64, "y": 64 },          // player top-left in pixels
+//   "orbs": [{ "x": 784, "y": 300 }],       // orb centers in pixels (snapped to surfaces on load)
+//   "enemies": [{ "col": 52, "row": 14, "type": "TRICK" }], // standing on top of tile row
+//   "checkpoints": [{ "col": 80, "row": 14 }],             // optional, placed like enemies
+//   "platforms": [{ "col": 90, "row": 11, "width": 3, "speed": 2, "path": [{ "col": 96, "row": 11 }] }],
+//                                                          // optional moving platforms (see PlatformSpec)
+//   "pickups": [{ "col": 40, "row": 12, "ability": "doubleJump" }], // optional ability pickups, placed like enemies
+//   "hazards": [{ "col": 60, "row": 9, "kind": "spikeTrap" }], // optional traps in tile (col, row): "spikeTrap"
+//                                                          // hangs from the cell's top, "fireBar" spins around its center
+//   "boss": { "col": 226, "row": 14, "arenaFrom": 214, "arenaTo": 239 }, // optional, placed like enemies;
+//                                                          // arena columns inclusive
+//   "portal": { "col": 234, "row": 14, "height": 3 }        // bottom tile of the portal column
+// }
+
+export const LEVEL_FORMAT = 'hyperwizard-level'
+export const LEVEL_FORMAT_VERSION = 1
+
+export type LevelFile = {
+  format: typeof LEVEL_FORMAT
+  version: number
+  name: string
+  tileSize: number
+  tiles: number[][]
+  spawn: { x: number; y: number }
+  orbs: OrbSpawn[]
+  enemies: EnemySpawn[]
+  checkpoints?: CheckpointSpec[]
+  platforms?: PlatformSpec[]
+  pickups?: PickupSpec[]
+  hazards?: HazardSpec[]
+  boss?: BossSpec | null
+  portal: PortalSpec
+}
+
+// Thrown with every problem found, so designers can fix a file in one pass
+export class LevelFileError extends Error {
+  readonly issues: string[]
+
+  constructor(issues: string[]) {
+    super(`Invalid level file:\n- ${issues.join('\n- ')}`)
+    this.name = 'LevelFileError'
+    this.issues = issues
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function isInteger(value: unknown): value is number {
+  return isFiniteNumber(value) && Number.isInteger(value)
+}
+
+export function parseLevelFile(data: unknown): LevelDefinition {
+  const issues: string[] = []
+  if (!isRecord(data)) throw new LevelFileError(['root: expected an object'])
+
+  if (data.format !== LEVEL_FORMAT) issues.push(`format: expected "${LEVEL_FORMAT}"`)
+  if (data.version !== LEVEL_FORMAT_VERSION) {
+    issues.push(`version: unsupported version ${JSON.stringify(data.version)} (expected ${LEVEL_FORMAT_VERSION})`)
+  }
+  const name = typeof data.name === 'string' && data.name.trim() !== '' ? data.name : null
+  if (name === null) issues.push('name: expected a non-empty string')
+
+  const tileSize = isInteger(data.tileSize) && data.tileSize > 0 ? data.tileSize : null
+  if (tileSize === null) issues.push('tileSize: expected a positive integer')
+
+  // Tiles: rectangular grid of known codes
+  let tiles: number[][] | null = null
+  if (!Array.isArray(data.tiles) || data.tiles.length === 0) {
+    issues.push('tiles: expected a non-empty array of rows')
+  } else {
+    const rows = data.tiles as unknown[]
+    const width = Array.isArray(rows[0]) ? rows[0].length : 0
+    if (width === 0) issues.push('tiles[0]: expected a non-empty array')
+    let ok = width > 0
+    for (let r = 0; r < rows.length; r += 1) {
+      const row = rows[r]
+      if (!Array.isArray(row)) {
+        issues.push(`tiles[${r}]: expected an array`)
+        ok = false
+        continue
+      }
+      if (row.length !== width) {
+        issues.push(`tiles[${r}]: has ${row.length} columns, expected ${width}`)
+        ok = false
+      }
+      for (let c = 0; c < row.length; c += 1) {
+        if (!isInteger(row[c]) || !TILE_CODES.includes(row[c])) {
+          issues.push(`tiles[${r}][${c}]: unknown tile code ${JSON.stringify(row[c])}`)
+          ok = false
+        }
+      }
+    }
+    if (ok) tiles = (rows as number[][]).map((row) => row.slice())
+  }
+  const rowsCount = tiles ? tiles.length : 0
+  const colsCount = tiles ? tiles[0].length : 0
+  const worldWidth = tileSize !== null ? colsCount * tileSize : 0
+  const worldHeight = tileSize !== null ? rowsCount * tileSize : 0
+  const boundsKnown = tiles !== null && tileSize !== null
+
+  let spawn: { x: number; y: number } | null = null
+  if (!isRecord(data.spawn) || !isFiniteNumber(data.spawn.x) || !isFiniteNumber(data.spawn.y)) {
+    issues.push('spawn: expected { x, y } in pixels')
+  } else if (boundsKnown && (data.spawn.x < 0 || data.spawn.x >= worldWidth || data.spawn.y < 0 || data.spawn.y >= worldHeight)) {
+    issues.push(`spawn: (${data.spawn.x}, ${data.spawn.y}) is outside the ${worldWidth}x${worldHeight} world`)
+  } else {
+    spawn = { x: data.spawn.x, y: data.spawn.y }
+  }
+
+  const orbs: OrbSpawn[] = []
+  if (!Array.isArray(data.orbs)) {
+    issues.push('orbs: expected an array')
+  } else {
+    data.orbs.forEach((o: unknown, i: number) => {
+      if (!isRecord(o) || !isFiniteNumber(o.x) || !isFiniteNumber(o.y)) {
+        issues.push(`orbs[${i}]: expected { x, y } in pixels`)
+      } else if (boundsKnown && (o.x < 0 || o.x >= worldWidth || o.y < 0 || o.y >= worldHeight)) {
+        issues.push(`orbs[${i}]: (${o.x}, ${o.y}) is outside the world`)
+      } else {
+        orbs.push({ x: o.x, y: o.y })
+      }
+    })
+  }
+
+  const enemies: EnemySpawn[] = []
+  if (!Array.isArray(data.enemies)) {
+    issues.push('enemies: expected an array')
+  } else {
+    data.enemies.forEach((e: unknown, i: number) => {
+      if (!isRecord(e) || !isInteger(e.col) || !isInteger(e.row)) {
+        issues.push(`enemies[${i}]: expected { col, row, type } with integer tile coordinates`)
+      } else if (!isEnemyType(e.type)) {
+        issues.push(`enemies[${i}].type: expected one of ${ENEMY_TYPES.join(', ')}, got ${JSON.stringify(e.type)}`)
+      } else if (boundsKnown && (e.col < 0 || e.col >= colsCount || e.row < 1 || e.row >= rowsCount)) {
+        issues.push(`enemies[${i}]: tile (${e.col}, ${e.row}) is outside the grid`)
+      } else {
+        enemies.push({ col: e.col, row: e.row, type: e.type })
+      }
+    })
+  }
+
+  // Optional so files written before checkpoints existed still load
+  const checkpoints: CheckpointSpec[] = []
+  if (data.checkpoints !== undefined && !Array.isArray(data.checkpoints)) {
+    issues.push('checkpoints: expected an array')
+  } else if (Array.isArray(data.checkpoints)) {
+    data.checkpoints.forEach((c: unknown, i: number) => {
+      if (!isRecord(c) || !isInteger(c.col) || !isInteger(c.row)) {
+        issues.push(`checkpoints[${i}]: expected { col, row } with integer tile coordinates`)
+      } else if (boundsKnown && (c.col < 0 || c.col >= colsCount || c.row < 1 || c.row >= rowsCount)) {
+        issues.push(`checkpoints[${i}]: tile (${c.col}, ${c.row}) is outside the grid`)
+      } else {
+        checkpoints.push({ col: c.col, row: c.row })
+      }
+    })
+  }
+
+  const platforms: PlatformSpec[] = []
+  if (data.platforms !== undefined && !Array.isArray(data.platforms)) {
+    issues.push('platforms: expected an array')
+  } else if (Array.isArray(data.platforms)) {
+    const inGrid = (col: number, row: number) => !boundsKnown || (col >= 0 && col < colsCount && row >= 0 && row < rowsCount)
+    data.platforms.forEach((m: unknown, i: number) => {
+      if (!isRecord(m) || !isInteger(m.col) || !isInteger(m.row) || !isInteger(m.width) || m.width < 1) {
+        issues.push(`platforms[${i}]: expected { col, row, width, speed, path } with integer tile coordinates`)
+      } else if (!isFiniteNumber(m.speed) || m.speed <= 0) {
+        issues.push(`platforms[${i}].speed: expected a positive number of tiles per second`)
+      } else if (!Array.isArray(m.path) || m.path.some((w: unknown) => !isRecord(w) || !isInteger(w.col) || !isInteger(w.row))) {
+        issues.push(`platforms[${i}].path: expected an array of { col, row }`)
+      } else if (!inGrid(m.col, m.row) || (m.path as { col: number; row: number }[]).some((w) => !inGrid(w.col, w.row))) {
+        issues.push(`platforms[${i}]: start or path leaves the grid`)
+      } else {
+        const path = (m.path as { col: number; row: number }[]).map((w) => ({ col: w.col, row: w.row }))
+        platforms.push({ col: m.col, row: m.row, width: m.width, speed: m.speed, path })
+      }
+    })
+  }
+
+  const pickups: PickupSpec[] = []
+  if (data.pickups !== undefined && !Array.isArray(data.pickups)) {
+    issues.push('pickups: expected an array')
+  } else if (Array.isArray(data.pickups)) {
+    data.pickups.forEach((u: unknown, i: number) => {
+      if (!isRecord(u) || !isInteger(u.col) || !isInteger(u.row)) {
+        issues.push(`pickups[${i}]: expected { col, row, ability } with integer tile coordinates`)
+      } else if (!isAbilityId(u.ability)) {
+        issues.push(`pickups[${i}].ability: expected one of ${ABILITIES.map((a) => a.id).join(', ')}`)
+      } else if (boundsKnown && (u.col < 0 || u.col >= colsCount || u.row < 1 || u.row >= rowsCount)) {
+        issues.push(`pickups[${i}]: tile (${u.col}, ${u.row}) is outside the grid`)
+      } else {
+        pickups.push({ col: u.col, row: u.row, ability: u.ability })
+      }
+    })
+  }
+
+  const hazards: HazardSpec[] = []
+  if (data.hazards !== undefined && !Array.isArray(data.hazards)) {
+    issues.push('hazards: expected an array')
+  } else if (Array.isArray(data.hazards)) {
+    data.hazards.forEach((h: unknown, i: number) => {
+      if (!isRecord(h) || !isInteger(h.col) || !isInteger(h.row)) {
+        issues.push(`hazards[${i}]: expected { col, row, kind } with integer tile coordinates`)
+      } else if (!isTrapKind(h.kind)) {
+        issues.push(`hazards[${i}].kind: expected one of ${TRAP_KINDS.join(', ')}`)
+      } else if (boundsKnown && (h.col < 0 || h.col >= colsCount || h.row < 0 || h.row >= rowsCount)) {
+        issues.push(`hazards[${i}]: tile (${h.col}, ${h.row}) is outside the grid`)
+      } else {
+        hazards.push({ col: h.col, row: h.row, kind: h.kind })
+      }
+    })
+  }
+
+  let boss: BossSpec | null = null
+  const b = data.boss
+  if (b !== undefined && b !== null) {
+    if (!isRecord(b) || !isInteger(b.col) || !isInteger(b.row) || !isInteger(b.arenaFrom) || !isInteger(b.arenaTo)) {
+      issues.push('boss: expected { col, row, arenaFrom, arenaTo } with integer tile coordinates')
+    } else if (b.arenaFrom > b.col || b.arenaTo < b.col) {
+      issues.push('boss: arenaFrom..arenaTo must include the boss column')
+    } else if (boundsKnown && (b.arenaFrom < 0 || b.arenaTo >= colsCount || b.row < 1 || b.row >= rowsCount)) {
+      issues.push(`boss: tile (${b.col}, ${b.row}) or its arena is outside the grid`)
+    } else {
+      boss = { col: b.col, row: b.row, arenaFrom: b.arenaFrom, arenaTo: b.arenaTo }
+    }
+  }
+
+  let portal: PortalSpec | null = null
+  const p = data.portal
+  if (!isRecord(p) || !isInteger(p.col) || !isInteger(p.row)) {
+    issues.push('portal: expected { col, row, height } with integer tile coordinates')
+  } else {
+    const height = p.height === undefined ? 1 : p.height
+    if (!isInteger(height) || height < 1) {
+      issues.push('portal.height: expected a positive integer')
+    } else if (boundsKnown && (p.col < 0 || p.col >= colsCount || p.row < 0 || p.row >= rowsCount || p.row - height + 1 < 0)) {
+      issues.push(`portal: column ${p.col} rows ${p.row - height + 1}..${p.row} is outside the grid`)
+    } else {
+      portal = { col: p.col, row: p.row, height }
+    }
+  }
+
+  if (issues.length > 0 || !name || !tiles || tileSize === null || !spawn || !portal) {
+    throw new LevelFileError(issues)
+  }
+
+  const level = { tiles, tileSize }
+  stampPortal(level, portal)
+  return { name, level, spawn, orbs, enemies, checkpoints, platforms, pickups, hazards, boss, portal }
+}
+
+// Parse JSON text; syntax errors are reported through LevelFileError as well
+export function loadLevelFile(json: string): LevelDefinition {
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch (err) {
+    throw new LevelFileError([`json: ${err instanceof Error ? err.message : String(err)}`])
+  }
+  return parseLevelFile(data)
+}
+
+// Serialize in the same layout as the bundled files: one tile row per line.
+// Portal tiles are left out of the grid since `portal` stamps them on load.
+export function serializeLevelFile(def: LevelDefinition): string {
+  const { level, spawn, portal } = def
+  const json = (value: unknown) => JSON.stringify(value)
+  const rows = level.tiles.map((row) => `    [${row.map((t) => (t === T_FLAG ? T_EMPTY : t)).join(',')}]`)
+  const lines = [
+    '{',
+    `  "format": ${json(LEVEL_FORMAT)},`,
+    `  "version": ${LEVEL_FORMAT_VERSION},`,
+    `  "name": ${json(def.name)},`,
+    `  "tileSize": ${level.tileSize},`,
+    `  "spawn": { "x": ${spawn.x}, "y": ${spawn.y} },`,
+    `  "portal": { "col": ${portal.col}, "row": ${portal.row}, "height": ${portal.height} },`,
+    '  "orbs": [',
+    def.orbs.map((o) => `    { "x": ${o.x}, "y": ${o.y} }`).join(',\n'),
+    '  ],',
+    '  "enemies": [',
+    def.enemies.map((e) => `    { "col": ${e.col}, "row": ${e.row}, "type": ${json(e.type)} }`).join(',\n'),
+    '  ],',
+    '  "checkpoints": [',
+    def.checkpoints.map((c) => `    { "col": ${c.col}, "row": ${c.row} }`).join(',\n'),
+    '  ],',
+    '  "platforms": [',
+    def.platforms
+      .map((m) => {
+        const path = m.path.map((w) => `{ "col": ${w.col}, "row": ${w.row} }`).join(', ')
+        return `    { "col": ${m.col}, "row": ${m.row}, "width": ${m.width}, "speed": ${m.speed}, "path": [${path}] }`
+      })
+      .join(',\n'),
+    '  ],',
+    '  "pickups": [',
+    def.pickups.map((u) => `    { "col": ${u.col}, "row": ${u.row}, "ability": ${json(u.ability)} }`).join(',\n'),
+    '  ],',
+    '  "hazards": [',
+    def.hazards.map((h) => `    { "col": ${h.col}, "row": ${h.row}, "kind": ${json(h.kind)} }`).join(',\n'),
+    '  ],',
+    def.boss
+      ? `  "boss": { "col": ${def.boss.col}, "row": ${def.boss.row}, "arenaFrom": ${def.boss.arenaFrom}, "arenaTo": ${def.boss.arenaTo} },`
+      : '',
+    '  "tiles": [',
+    rows.join(',\n'),
+    '  ]',
+    '}',
+  ]
+  // Drop the blank line an empty entity list would leave behind
+  return lines.filter((line) => line !== '').join('\n') + '\n'
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import { T_EMPTY, T_FLAG, T_GROUND, T_SPIKE } from '../engine/level'
+import { hashSeed } from '../engine/rng'
+import { baselineLevel } from '.'
+import { parseAsciiLevel } from './asciiLevel'
+import { decodeLevelLink, decodeTilesRle, encodeLevelLink, encodeTilesRle, isLevelLink } from './levelLink'
+
+// A link around any payload, with a checksum that matches it, so the checks
+// after the checksum can be reached
+function forgeLink(payload: unknown): string {
+  const body = `1.${btoa(JSON.stringify(payload)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')}`
+  return `#level=${body}.${hashSeed(body).toString(36)}`
+}
+
+describe('tile run-length encoding', () => {
+  it('packs runs as "<count><code>" and leaves portal tiles out', () => {
+    const tiles = [
+      [T_EMPTY, T_EMPTY, T_EMPTY, T_FLAG],
+      [T_GROUND, T_GROUND, T_SPIKE, T_GROUND],
+    ]
+    expect(encodeTilesRle(tiles)).toBe('4a2bdb')
+    expect(decodeTilesRle('4a2bdb', 4, 2)).toEqual([
+      [T_EMPTY, T_EMPTY, T_EMPTY, T_EMPTY],
+      [T_GROUND, T_GROUND, T_SPIKE, T_GROUND],
+    ])
+  })
+
+  it('rejects tile data that does not fill the grid exactly', () => {
+    expect(() => decodeTilesRle('7a', 4, 2)).toThrow('link: expected 8 tiles, found 7')
+    expect(() => decodeTilesRle('9a', 4, 2)).toThrow('link: tile data is longer than the level')
+    expect(() => decodeTilesRle('4a!4b', 4, 2)).toThrow('link: unexpected character in tile data at position 3')
+  })
+})
+
+describe('level links', () => {
+  it('round-trip the bundled level', () => {
+    const link = encodeLevelLink(baselineLevel)
+    expect(isLevelLink(link)).toBe(true)
+    expect(decodeLevelLink(link)).toEqual(baselineLevel)
+  })
+
+  it('round-trip names and entities of every kind', () => {
+    const def = parseAsciiLevel(['..v...*....', '@o.t.c+...|', '===========', 'B..........', '###########'].join('\n'), { name: 'Zaubergärten ✨' })
+    def.platforms.push({ col: 1, row: 0, width: 2, speed: 1.5, path: [{ col: 5, row: 0 }] })
+    expect(decodeLevelLink(encodeLevelLink(def))).toEqual(def)
+  })
+
+  it('reject a link that was edited or cut off', () => {
+    const link = encodeLevelLink(baselineLevel)
+    const [head, data, sum] = link.split('.')
+    const edited = `${head}.${data.slice(0, 10)}${data[10] === 'A' ? 'B' : 'A'}${data.slice(11)}.${sum}`
+    expect(() => decodeLevelLink(edited)).toThrow('link: checksum mismatch, the link was changed or cut off')
+    expect(() => decodeLevelLink(`${head}.${data.slice(0, 40)}`)).toThrow('link: the link looks incomplete')
+  })
+
+  it('reject links from another version', () => {
+    expect(() => decodeLevelLink(encodeLevelLink(baselineLevel).replace('#level=1.', '#level=2.'))).toThrow('made by a different version')
+  })
+
+  it('refuse absurd sizes before decoding the tiles', () => {
+    expect(() => decodeLevelLink(forgeLink({ w: 2000, h: 1000, t: '' }))).toThrow('link: level size 2000×1000 is out of range')
+    expect(() => decodeLevelLink(forgeLink({ w: 0, h: 5, t: '' }))).toThrow('out of range')
+  })
+
+  it('hand what decodes to the level-file validator', () => {
+    const link = forgeLink({ n: 'x', w: 2, h: 2, ts: 32, t: '2a2b', s: [0, 0], p: [1, 0, 1], o: [], e: [[0, 1, 'DRAGON']] })
+    expect(() => decodeLevelLink(link)).toThrow(/enemies\[0\]\.type: expected one of /)
+  })
+})
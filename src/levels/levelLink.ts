@@ -0,0 +1,180 @@
+import { T_EMPTY, T_FLAG, levelCols, levelRows, type LevelDefinition } from '../engine/level'
+import { hashSeed } from '../engine/rng'
+import { LEVEL_FORMAT, LEVEL_FORMAT_VERSION, LevelFileError, parseLevelFile } from './levelFile'
+
+// Levels shared by link, no server involved: #level=<version>.<payload>.<checksum>
+//
+// The payload is base64url-encoded JSON with the tile grid run-length encoded
+// row-major as "<count><code>" pairs (count omitted when 1, codes as letters
+// a = T_EMPTY, b = T_GROUND, ...). The checksum catches links that were cut
+// off or edited by hand; the decoded level then goes through the same
+// validation as level files.
+
+const LEVEL_HASH_PREFIX = '#level='
+const LINK_VERSION = 1
+const CODE_BASE = 'a'.charCodeAt(0)
+// Guards against absurd sizes in hand-made links
+const MAX_LINK_TILES = 1_000_000
+
+type LinkPayload = {
+  n: string
+  w: number
+  h: number
+  ts: number
+  t: string
+  s: [number, number]
+  p: [number, number, number]
+  o: [number, number][]
+  e: [number, number, string][]
+  k: [number, number][]
+  m: [number, number, number, number, [number, number][]][]
+  u: [number, number, string][]
+  z: [number, number, string][]
+  // Boss: col, row, arenaFrom, arenaTo (left out when there is none)
+  b?: [number, number, number, number]
+}
+
+export function isLevelLink(hash: string): boolean {
+  return hash.startsWith(LEVEL_HASH_PREFIX)
+}
+
+export function encodeTilesRle(tiles: number[][]): string {
+  let out = ''
+  let prev = -1
+  let count = 0
+  const flush = () => {
+    if (count > 0) out += `${count > 1 ? count : ''}${String.fromCharCode(CODE_BASE + prev)}`
+  }
+  for (const row of tiles) {
+    for (const raw of row) {
+      // Portal tiles are re-stamped from the portal spec on load
+      const tile = raw === T_FLAG ? T_EMPTY : raw
+      if (tile === prev) {
+        count += 1
+      } else {
+        flush()
+        prev = tile
+        count = 1
+      }
+    }
+  }
+  flush()
+  return out
+}
+
+export function decodeTilesRle(text: string, cols: number, rows: number): number[][] {
+  const flat: number[] = []
+  const total = cols * rows
+  const pattern = /(\d*)([a-z])/y
+  let consumed = 0
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text)) !== null) {
+    const count = match[1] ? Number(match[1]) : 1
+    if (flat.length + count > total) throw new LevelFileError(['link: tile data is longer than the level'])
+    const code = match[2].charCodeAt(0) - CODE_BASE
+    for (let i = 0; i < count; i += 1) flat.push(code)
+    consumed = pattern.lastIndex
+  }
+  if (consumed !== text.length) throw new LevelFileError([`link: unexpected character in tile data at position ${consumed + 1}`])
+  if (flat.length !== total) throw new LevelFileError([`link: expected ${total} tiles, found ${flat.length}`])
+  const tiles: number[][] = []
+  for (let r = 0; r < rows; r += 1) tiles.push(flat.slice(r * cols, (r + 1) * cols))
+  return tiles
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text)
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 1) binary += String.fromCharCode(bytes[i])
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(text: string): string {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'))
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i += 1) bytes[i] = binary.charCodeAt(i)
+  return new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+}
+
+function checksum(body: string): string {
+  return hashSeed(body).toString(36)
+}
+
+// The URL hash (including "#level=") for a level
+export function encodeLevelLink(def: LevelDefinition): string {
+  const { level, spawn, portal } = def
+  const payload: LinkPayload = {
+    n: def.name,
+    w: levelCols(level),
+    h: levelRows(level),
+    ts: level.tileSize,
+    t: encodeTilesRle(level.tiles),
+    s: [spawn.x, spawn.y],
+    p: [portal.col, portal.row, portal.height],
+    o: def.orbs.map((o) => [o.x, o.y]),
+    e: def.enemies.map((e) => [e.col, e.row, e.type]),
+    k: def.checkpoints.map((c) => [c.col, c.row]),
+    m: def.platforms.map((m) => [m.col, m.row, m.width, m.speed, m.path.map((w) => [w.col, w.row])]),
+    u: def.pickups.map((u) => [u.col, u.row, u.ability]),
+    z: def.hazards.map((h) => [h.col, h.row, h.kind]),
+  }
+  if (def.boss) payload.b = [def.boss.col, def.boss.row, def.boss.arenaFrom, def.boss.arenaTo]
+  const body = `${LINK_VERSION}.${toBase64Url(JSON.stringify(payload))}`
+  return `${LEVEL_HASH_PREFIX}${body}.${checksum(body)}`
+}
+
+export function decodeLevelLink(hash: string): LevelDefinition {
+  if (!isLevelLink(hash)) throw new LevelFileError(['link: not a level link'])
+  const raw = hash.slice(LEVEL_HASH_PREFIX.length)
+  const parts = raw.split('.')
+  if (parts.length !== 3) throw new LevelFileError(['link: the link looks incomplete (was it cut off when copying?)'])
+  const [version, data, sum] = parts
+  if (Number(version) !== LINK_VERSION) {
+    throw new LevelFileError([`link: made by a different version of the game (link version ${version}, expected ${LINK_VERSION})`])
+  }
+  if (checksum(`${version}.${data}`) !== sum) {
+    throw new LevelFileError(['link: checksum mismatch, the link was changed or cut off'])
+  }
+
+  let payload: Partial<LinkPayload>
+  try {
+    payload = JSON.parse(fromBase64Url(data))
+  } catch {
+    throw new LevelFileError(['link: the level data could not be decoded'])
+  }
+  if (!payload || typeof payload !== 'object') throw new LevelFileError(['link: the level data could not be decoded'])
+  const { w, h, t } = payload
+  if (!Number.isInteger(w) || !Number.isInteger(h) || typeof t !== 'string') {
+    throw new LevelFileError(['link: the level data is missing its size or tiles'])
+  }
+  if ((w as number) < 1 || (h as number) < 1 || (w as number) * (h as number) > MAX_LINK_TILES) {
+    throw new LevelFileError([`link: level size ${w}×${h} is out of range`])
+  }
+  const spawn = asArray(payload.s)
+  const portal = asArray(payload.p)
+  const boss = payload.b === undefined ? null : asArray(payload.b)
+  // Hand the rest to the level-file validator so links and files agree on what is valid
+  return parseLevelFile({
+    format: LEVEL_FORMAT,
+    version: LEVEL_FORMAT_VERSION,
+    name: payload.n,
+    tileSize: payload.ts,
+    tiles: decodeTilesRle(t, w as number, h as number),
+    spawn: { x: spawn[0], y: spawn[1] },
+    portal: { col: portal[0], row: portal[1], height: portal[2] },
+    orbs: asArray(payload.o).map((o) => ({ x: asArray(o)[0], y: asArray(o)[1] })),
+    enemies: asArray(payload.e).map((e) => ({ col: asArray(e)[0], row: asArray(e)[1], type: asArray(e)[2] })),
+    checkpoints: asArray(payload.k).map((c) => ({ col: asArray(c)[0], row: asArray(c)[1] })),
+    platforms: asArray(payload.m).map((raw) => {
+      const m = asArray(raw)
+      return { col: m[0], row: m[1], width: m[2], speed: m[3], path: asArray(m[4]).map((w) => ({ col: asArray(w)[0], row: asArray(w)[1] })) }
+    }),
+    pickups: asArray(payload.u).map((u) => ({ col: asArray(u)[0], row: asArray(u)[1], ability: asArray(u)[2] })),
+    hazards: asArray(payload.z).map((h) => ({ col: asArray(h)[0], row: asArray(h)[1], kind: asArray(h)[2] })),
+    boss: boss && { col: boss[0], row: boss[1], arenaFrom: boss[2], arenaTo: boss[3] },
+  })
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : []
+}
@@ -0,0 +1,56 @@
+import { CAMPAIGN } from './campaign'
+
+// Campaign progress persisted in localStorage
+const STORAGE_KEY = 'hyperwizard.progress.v1'
+
+export type CampaignProgress = {
+  completed: string[]
+}
+
+export function loadProgress(): CampaignProgress {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    if (!raw) return { completed: [] }
+    const data: unknown = JSON.parse(raw)
+    if (typeof data === 'object' && data !== null && Array.isArray((data as CampaignProgress).completed)) {
+      return { completed: (data as CampaignProgress).completed.filter((id) => typeof id === 'string') }
+    }
+  } catch {
+    // Storage disabled or corrupt entry: start fresh
+  }
+  return { completed: [] }
+}
+
+function saveProgress(progress: CampaignProgress): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(progress))
+  } catch {
+    // Storage full or disabled; progress just won't persist
+  }
+}
+
+export function markLevelCompleted(progress: CampaignProgress, id: string): CampaignProgress {
+  if (progress.completed.includes(id)) return progress
+  const next = { completed: [...progress.completed, id] }
+  saveProgress(next)
+  return next
+}
+
+export function isLevelCompleted(progress: CampaignProgress, index: number): boolean {
+  const entry = CAMPAIGN[index]
+  return !!entry && progress.completed.includes(entry.id)
+}
+
+// The first level is always open; every other level opens once its predecessor is done
+export function isLevelUnlocked(progress: CampaignProgress, index: number): boolean {
+  if (index <= 0) return index === 0
+  return index < CAMPAIGN.length && isLevelCompleted(progress, index - 1)
+}
+
+// Where "Start Game" should drop the player: the first unlocked level not yet completed
+export function nextPlayableLevel(progress: CampaignProgress): number {
+  for (let i = 0; i < CAMPAIGN.length; i += 1) {
+    if (isLevelUnlocked(progress, i) && !isLevelCompleted(progress, i)) return i
+  }
+  return 0
+}
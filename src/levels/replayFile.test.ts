@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+import { createReplay } from '../engine/replay'
+import { parseAsciiLevel } from './asciiLevel'
+import { LevelFileError } from './levelFile'
+import { decodeInputRuns, encodeInputRuns, loadReplay, serializeReplay } from './replayFile'
+
+const LEVEL = parseAsciiLevel(['..........', '.@..o...t|', '##########'].join('\n'), { name: 'tiny' })
+
+function sampleFile(): Record<string, unknown> {
+  const replay = createReplay(LEVEL, 7)
+  replay.inputs = [0, 0, 0, 2, 2, 6, 6, 6, 0]
+  replay.viewports = [{ tick: 0, width: 1280, height: 720 }]
+  replay.cheats = [{ tick: 4, cheat: { kind: 'grantAbility', ability: 'flight' } }]
+  return JSON.parse(serializeReplay(replay))
+}
+
+// The issues loadReplay reports for the sample file with `changes` applied
+function issuesFor(changes: Record<string, unknown>): string[] {
+  try {
+    loadReplay(JSON.stringify({ ...sampleFile(), ...changes }))
+  } catch (err) {
+    if (err instanceof LevelFileError) return err.issues
+    throw err
+  }
+  throw new Error('loadReplay accepted the file')
+}
+
+describe('input runs', () => {
+  it('round-trip through the run-length encoding', () => {
+    const inputs = [0, 0, 0, 5, 1023, 1023, 0]
+    expect(encodeInputRuns(inputs)).toBe('0*3.5.sf*2.0')
+    expect(decodeInputRuns(encodeInputRuns(inputs), inputs.length)).toEqual(inputs)
+  })
+
+  it('reject runs that are malformed, too long or use unknown bits', () => {
+    expect(() => decodeInputRuns('0*3.?', 10)).toThrow(LevelFileError)
+    expect(() => decodeInputRuns('0*b', 10)).toThrow('more inputs than ticks')
+    expect(() => decodeInputRuns('zz', 10)).toThrow('unknown input bits')
+  })
+})
+
+describe('loadReplay', () => {
+  it('reads back what serializeReplay wrote', () => {
+    const replay = loadReplay(JSON.stringify(sampleFile()))
+    expect(replay.seed).toBe(7)
+    expect(replay.inputs).toEqual([0, 0, 0, 2, 2, 6, 6, 6, 0])
+    expect(replay.cheats).toEqual([{ tick: 4, cheat: { kind: 'grantAbility', ability: 'flight' } }])
+    expect(replay.level.level.tiles).toEqual(LEVEL.level.tiles)
+  })
+
+  it('accepts files saved before cheats were recorded', () => {
+    const file = sampleFile()
+    delete file.cheats
+    expect(loadReplay(JSON.stringify(file)).cheats).toEqual([])
+  })
+
+  it('rejects a file cut off part way through', () => {
+    const json = JSON.stringify(sampleFile())
+    expect(() => loadReplay(json.slice(0, json.length / 2))).toThrow(LevelFileError)
+  })
+
+  it('rejects fewer inputs than the file claims ticks', () => {
+    expect(() => loadReplay(JSON.stringify({ ...sampleFile(), ticks: 12 }))).toThrow('expected 12 ticks of input, found 9')
+  })
+
+  it('rejects a damaged level link', () => {
+    const level = sampleFile().level as string
+    const damaged = `${level.slice(0, 20)}${level[20] === 'A' ? 'B' : 'A'}${level.slice(21)}`
+    expect(() => loadReplay(JSON.stringify({ ...sampleFile(), level: damaged }))).toThrow('checksum mismatch')
+  })
+
+  it('lists every bad field at once', () => {
+    expect(issuesFor({ format: 'other', version: 9, seed: -1, viewports: [[0, 1280]] })).toEqual([
+      'format: expected "hyperwizard-replay"',
+      'version: unsupported version 9 (expected 1)',
+      'seed: expected a non-negative integer',
+      'viewports[0]: expected [tick, width, height]',
+    ])
+  })
+
+  it('rejects cheats out of order, past the end or of unknown kinds', () => {
+    expect(issuesFor({ cheats: [[5, 'killAllEnemies'], [3, 'collectAllOrbs']] })).toEqual(['cheats[1]: expected a tick in order and within the recording'])
+    expect(issuesFor({ cheats: [[10, 'killAllEnemies']] })).toEqual(['cheats[0]: expected a tick in order and within the recording'])
+    expect(issuesFor({ cheats: [[2, 'grantAbility', 'teleport']] })).toHaveLength(1)
+    expect(issuesFor({ cheats: [[2, 'godMode']] })).toHaveLength(1)
+  })
+})
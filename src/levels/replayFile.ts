@@ -0,0 +1,125 @@
+import { isAbilityId } from '../engine/abilities'
+import { INPUT_BITS, type CheatEvent, type Replay, type ViewportChange } from '../engine/replay'
+import { LevelFileError } from './levelFile'
+import { decodeLevelLink, encodeLevelLink } from './levelLink'
+
+// Replay files, small enough to attach to a bug report
+//
+// {
+//   "format": "hyperwizard-replay",
+//   "version": 1,
+//   "level": "#level=1.eyJu….k2f9",     // the level, encoded as a share link (see levelLink.ts)
+//   "seed": 2840392813,                 // the world's rng seed
+//   "viewports": [[0, 1280, 720]],      // [tick, width, height] whenever the view size changed
+//   "ticks": 5400,
+//   "inputs": "0*1k.8*3e.c.8*2a",       // input masks (bits in INPUT_BITS order) as runs of
+//                                       // "<mask>" or "<mask>*<count>", base 36, dot separated
+//   "cheats": [[310, "grantAbility", "flight"], [900, "killAllEnemies"]]
+//                                       // dev overlay cheats, applied before the tick given;
+//                                       // optional (files from before cheats were recorded)
+// }
+
+export const REPLAY_FORMAT = 'hyperwizard-replay'
+export const REPLAY_FORMAT_VERSION = 1
+
+const MAX_MASK = (1 << INPUT_BITS.length) - 1
+
+export function encodeInputRuns(inputs: number[]): string {
+  const runs: string[] = []
+  let i = 0
+  while (i < inputs.length) {
+    const mask = inputs[i]
+    let count = 1
+    while (i + count < inputs.length && inputs[i + count] === mask) count += 1
+    runs.push(count > 1 ? `${mask.toString(36)}*${count.toString(36)}` : mask.toString(36))
+    i += count
+  }
+  return runs.join('.')
+}
+
+export function decodeInputRuns(text: string, ticks: number): number[] {
+  const inputs: number[] = []
+  if (text === '') return inputs
+  const runs = text.split('.')
+  for (let i = 0; i < runs.length; i += 1) {
+    const match = /^([0-9a-z]+)(?:\*([0-9a-z]+))?$/.exec(runs[i])
+    if (!match) throw new LevelFileError([`replay: input run ${i + 1} ("${runs[i]}") is not "<mask>" or "<mask>*<count>"`])
+    const mask = parseInt(match[1], 36)
+    const count = match[2] ? parseInt(match[2], 36) : 1
+    if (mask > MAX_MASK) throw new LevelFileError([`replay: input run ${i + 1} has unknown input bits`])
+    if (inputs.length + count > ticks) throw new LevelFileError(['replay: more inputs than ticks'])
+    for (let k = 0; k < count; k += 1) inputs.push(mask)
+  }
+  return inputs
+}
+
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify({
+    format: REPLAY_FORMAT,
+    version: REPLAY_FORMAT_VERSION,
+    level: encodeLevelLink(replay.level),
+    seed: replay.seed,
+    viewports: replay.viewports.map((v) => [v.tick, v.width, v.height]),
+    ticks: replay.inputs.length,
+    inputs: encodeInputRuns(replay.inputs),
+    cheats: replay.cheats.map(({ tick, cheat }) => ('ability' in cheat ? [tick, cheat.kind, cheat.ability] : [tick, cheat.kind])),
+  })
+}
+
+export function loadReplay(json: string): Replay {
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch (err) {
+    throw new LevelFileError([`json: ${err instanceof Error ? err.message : String(err)}`])
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) throw new LevelFileError(['root: expected an object'])
+  const file = data as Record<string, unknown>
+  const issues: string[] = []
+  if (file.format !== REPLAY_FORMAT) issues.push(`format: expected "${REPLAY_FORMAT}"`)
+  if (file.version !== REPLAY_FORMAT_VERSION) {
+    issues.push(`version: unsupported version ${JSON.stringify(file.version)} (expected ${REPLAY_FORMAT_VERSION})`)
+  }
+  const { seed, ticks } = file
+  if (!Number.isInteger(seed) || (seed as number) < 0) issues.push('seed: expected a non-negative integer')
+  if (!Number.isInteger(ticks) || (ticks as number) < 0) issues.push('ticks: expected a non-negative integer')
+  if (typeof file.level !== 'string') issues.push('level: expected a level link string')
+  if (typeof file.inputs !== 'string') issues.push('inputs: expected a string')
+  const viewports: ViewportChange[] = []
+  if (!Array.isArray(file.viewports)) {
+    issues.push('viewports: expected an array')
+  } else {
+    file.viewports.forEach((raw, i) => {
+      const v = Array.isArray(raw) ? raw : []
+      if (v.length !== 3 || !v.every((n) => Number.isInteger(n) && n >= 0)) {
+        issues.push(`viewports[${i}]: expected [tick, width, height]`)
+      } else {
+        viewports.push({ tick: v[0], width: v[1], height: v[2] })
+      }
+    })
+  }
+  const cheats: CheatEvent[] = []
+  if (file.cheats !== undefined && !Array.isArray(file.cheats)) {
+    issues.push('cheats: expected an array')
+  } else if (Array.isArray(file.cheats)) {
+    file.cheats.forEach((raw, i) => {
+      const c = Array.isArray(raw) ? raw : []
+      const [tick, kind, ability] = c
+      const last = cheats.length > 0 ? cheats[cheats.length - 1].tick : 0
+      if (!Number.isInteger(tick) || tick < last || (Number.isInteger(ticks) && tick > (ticks as number))) {
+        issues.push(`cheats[${i}]: expected a tick in order and within the recording`)
+      } else if ((kind === 'grantAbility' || kind === 'revokeAbility') && c.length === 3 && isAbilityId(ability)) {
+        cheats.push({ tick, cheat: { kind, ability } })
+      } else if ((kind === 'killAllEnemies' || kind === 'collectAllOrbs') && c.length === 2) {
+        cheats.push({ tick, cheat: { kind } })
+      } else {
+        issues.push(`cheats[${i}]: expected [tick, "grantAbility" | "revokeAbility", ability] or [tick, "killAllEnemies" | "collectAllOrbs"]`)
+      }
+    })
+  }
+  if (issues.length > 0) throw new LevelFileError(issues)
+
+  const inputs = decodeInputRuns(file.inputs as string, ticks as number)
+  if (inputs.length !== ticks) throw new LevelFileError([`replay: expected ${ticks} ticks of input, found ${inputs.length}`])
+  return { level: decodeLevelLink(file.level as string), seed: seed as number, inputs, viewports, cheats }
+}
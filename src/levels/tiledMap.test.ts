@@ -0,0 +1,152 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+import { PLAYER_HEIGHT, PLAYER_WIDTH } from '../engine/entities'
+import { T_FLAG, T_GROUND, T_SPIKE } from '../engine/level'
+import { LevelFileError, loadLevelFile, serializeLevelFile } from './levelFile'
+import { importTiledMap, parseTmx, type TiledMap, type TiledObject } from './tiledMap'
+
+// A 6×4 map of 32 px tiles: ground along the bottom with one spike, a spawn,
+// a portal box over the last column, an orb and a Hyper
+const GROUND_ROW = [1, 1, 1, 2, 1, 1]
+
+const OBJECTS: TiledObject[] = [
+  { id: 1, type: 'spawn', x: 48, y: 96, point: true },
+  { id: 2, type: 'portal', x: 160, y: 32, width: 32, height: 64 },
+  { id: 3, type: 'orb', x: 112, y: 48, point: true },
+  { id: 4, type: 'hyper', x: 64, y: 64, width: 32, height: 32 },
+]
+
+function tinyMap(objects: TiledObject[] = OBJECTS): TiledMap {
+  return {
+    width: 6,
+    height: 4,
+    tilewidth: 32,
+    tileheight: 32,
+    layers: [
+      { type: 'tilelayer', name: 'Tiles', data: [...new Array(18).fill(0), ...GROUND_ROW] },
+      { type: 'objectgroup', name: 'Things', objects },
+    ],
+    tilesets: [
+      {
+        firstgid: 1,
+        name: 'terrain',
+        tiles: [
+          { id: 0, properties: [{ name: 'tile', type: 'string', value: 'ground' }] },
+          { id: 1, properties: [{ name: 'tile', type: 'string', value: 'spike' }] },
+        ],
+      },
+    ],
+  }
+}
+
+// The same map as Tiled writes it in TMX
+const TINY_TMX = `<?xml version="1.0" encoding="UTF-8"?>
+<map version="1.10" orientation="orthogonal" width="6" height="4" tilewidth="32" tileheight="32" infinite="0">
+ <tileset firstgid="1" name="terrain">
+  <tile id="0"><properties><property name="tile" value="ground"/></properties></tile>
+  <tile id="1"><properties><property name="tile" value="spike"/></properties></tile>
+ </tileset>
+ <layer id="1" name="Tiles" width="6" height="4">
+  <data encoding="csv">
+0,0,0,0,0,0,
+0,0,0,0,0,0,
+0,0,0,0,0,0,
+1,1,1,2,1,1
+</data>
+ </layer>
+ <objectgroup id="2" name="Things">
+  <object id="1" type="spawn" x="48" y="96"><point/></object>
+  <object id="2" type="portal" x="160" y="32" width="32" height="64"/>
+  <object id="3" type="orb" x="112" y="48"><point/></object>
+  <object id="4" type="hyper" x="64" y="64" width="32" height="32"/>
+ </objectgroup>
+</map>`
+
+// The issues importTiledMap throws for `map`
+function issuesFor(map: unknown): string[] {
+  try {
+    importTiledMap(map)
+  } catch (err) {
+    if (err instanceof LevelFileError) return err.issues
+    throw err
+  }
+  throw new Error('importTiledMap accepted the map')
+}
+
+describe('importTiledMap', () => {
+  it('reads tiles and objects from a .tmj map', () => {
+    const { definition, warnings } = importTiledMap(tinyMap(), 'Tiny')
+    expect(warnings).toEqual([])
+    expect(definition.name).toBe('Tiny')
+    expect(definition.level.tiles[3]).toEqual([T_GROUND, T_GROUND, T_GROUND, T_SPIKE, T_GROUND, T_GROUND])
+    // A point spawn marks the wizard's feet
+    expect(definition.spawn).toEqual({ x: 48 - PLAYER_WIDTH / 2, y: 96 - PLAYER_HEIGHT })
+    expect(definition.portal).toEqual({ col: 5, row: 2, height: 2 })
+    expect([definition.level.tiles[1][5], definition.level.tiles[2][5]]).toEqual([T_FLAG, T_FLAG])
+    expect(definition.enemies).toEqual([{ col: 2, row: 3, type: 'HYPER' }])
+    expect(definition.orbs).toHaveLength(1)
+  })
+
+  it('produces a level that saves and loads as a level file', () => {
+    const { definition } = importTiledMap(tinyMap(), 'Tiny')
+    expect(loadLevelFile(serializeLevelFile(definition))).toEqual(definition)
+  })
+
+  it('drops entities standing above the top row with a warning', () => {
+    const objects: TiledObject[] = [
+      ...OBJECTS,
+      { id: 5, type: 'enemy', x: 16, y: 8, point: true },
+      { id: 6, type: 'checkpoint', x: 16, y: 8, point: true },
+      { id: 7, type: 'powerup', x: 16, y: 8, point: true },
+      { id: 8, type: 'boss', x: 16, y: 8, point: true },
+    ]
+    const { definition, warnings } = importTiledMap(tinyMap(objects))
+    expect(definition.enemies).toHaveLength(1)
+    expect([definition.checkpoints, definition.pickups, definition.boss]).toEqual([[], [], null])
+    expect(warnings).toEqual([
+      'layer "Things", object #5: enemy stands above the map\'s top row and was ignored',
+      'layer "Things", object #6: checkpoint stands above the map\'s top row and was ignored',
+      'layer "Things", object #7: powerup stands above the map\'s top row and was ignored',
+      'layer "Things", object #8: boss stands above the map\'s top row and was ignored',
+    ])
+  })
+
+  it('warns about what it cannot map and carries on', () => {
+    const map = tinyMap([...OBJECTS, { id: 9, type: 'ladder', x: 0, y: 0 }])
+    map.layers[0].data = [...new Array(18).fill(0), 1, 1, 1, 7, 1, 1]
+    const { definition, warnings } = importTiledMap(map)
+    expect(definition.level.tiles[3][3]).toBe(T_GROUND)
+    expect(warnings).toEqual([
+      'layer "Things", object #9: unknown object type "ladder" ignored',
+      'tiles: gid 7 has no "tile" property, imported as ground',
+    ])
+  })
+
+  it('rejects maps it cannot import', () => {
+    expect(issuesFor({ format: 'hyperwizard-level' })).toEqual(['map: not a Tiled map (expected "layers" and "tilewidth")'])
+    expect(issuesFor({ ...tinyMap(), infinite: true, tileheight: 16 })).toEqual([
+      'map: infinite maps are not supported, set a fixed map size in Tiled',
+      'map: tiles must be square (got 32×16)',
+    ])
+    const base64 = tinyMap([])
+    base64.layers[0] = { type: 'tilelayer', name: 'Tiles', data: 'AAAA', encoding: 'base64' }
+    expect(issuesFor(base64)).toEqual([
+      'layer "Tiles": tile data must be exported as CSV (not base64)',
+      'spawn: no "spawn" object found',
+      'portal: no "portal" object found',
+    ])
+  })
+})
+
+describe('parseTmx', () => {
+  it('reads a .tmx map into the same level as its .tmj twin', () => {
+    const fromTmx = importTiledMap(parseTmx(TINY_TMX), 'Tiny')
+    expect(fromTmx.warnings).toEqual([])
+    expect(fromTmx.definition).toEqual(importTiledMap(tinyMap(), 'Tiny').definition)
+  })
+
+  it('rejects documents that are not TMX maps', () => {
+    expect(() => parseTmx('<map width="6"')).toThrow('map: not a valid TMX document')
+    expect(() => parseTmx('<tileset name="terrain"/>')).toThrow('map: not a valid TMX document')
+  })
+})
@@ -0,0 +1,550 @@
+import {
+  T_BLOCK,
+  T_EMPTY,
+  T_GROUND,
+  T_ONEWAY,
+  T_SLOPE_DOWN,
+  T_SLOPE_DOWN_HIGH,
+  T_SLOPE_DOWN_LOW,
+  T_SLOPE_UP,
+  T_SLOPE_UP_HIGH,
+  T_SLOPE_UP_LOW,
+  T_SPIKE,
+  bossSpecAt,
+  stampPortal,
+  type BossSpec,
+  type CheckpointSpec,
+  type EnemySpawn,
+  type EnemyType,
+  type HazardSpec,
+  type LevelDefinition,
+  type OrbSpawn,
+  type PickupSpec,
+  type PlatformSpec,
+  type PortalSpec,
+} from '../engine/level'
+import { isAbilityId, type AbilityId } from '../engine/abilities'
+import { ENEMY_TYPES, isEnemyType } from '../engine/enemies'
+import { PLAYER_HEIGHT, PLAYER_WIDTH, snapOrbsToSurfaces } from '../engine/entities'
+import { LEVEL_FORMAT, LEVEL_FORMAT_VERSION, LevelFileError, parseLevelFile } from './levelFile'
+
+// Importer for maps made in the Tiled editor (https://www.mapeditor.org).
+//
+// Tile layers: each tileset tile carries a string property `tile` set to
+// "empty", "ground", "block", "spike", "oneway", a slope name ("slope-up",
+// "slope-down" for 45°; "slope-up-low", "slope-up-high", "slope-down-high",
+// "slope-down-low" for 22.5° pairs) or a numeric T_* code. Layers are merged
+// bottom to top; a later non-empty tile wins.
+//
+// Object layers: the object's type/class picks what it becomes:
+//   orb                      pickup at the object's center (point or box)
+//   enemy                    foe standing on the tile under the box; property
+//                            `enemyType` = any enemy type, e.g. "HYPER" (default TRICK)
+//   trick / hyper / wisp...  shorthand for an enemy of that type (lowercase)
+//   checkpoint               respawn point standing on the tile under the box
+//   powerup                  ability pickup above the tile under the box;
+//                            property `ability` (default "doubleJump")
+//   spiketrap / firebar      trap in the tile holding the object's center
+//   boss                     boss standing on the tile under the box; properties
+//                            `arenaFrom` / `arenaTo` give the arena's first and
+//                            last tile column (default BOSS_ARENA_REACH either side)
+//   spawn                    player start (point = feet, box = top-left)
+//   portal                   exit column; height from the box or `height`
+//   platform                 moving platform drawn as a polyline path from its
+//                            start; properties `width` in tiles (default 3)
+//                            and `speed` in tiles/s (default 2)
+//
+// Problems that make the map unusable throw a LevelFileError; anything that
+// can be worked around is reported in `warnings` instead.
+
+export type TiledProperty = { name: string; type?: string; value: unknown }
+
+export type TiledObject = {
+  id?: number
+  name?: string
+  type?: string
+  class?: string
+  x: number
+  y: number
+  width?: number
+  height?: number
+  point?: boolean
+  polyline?: { x: number; y: number }[]
+  gid?: number
+  properties?: TiledProperty[]
+}
+
+export type TiledLayer = {
+  type: string
+  name?: string
+  visible?: boolean
+  width?: number
+  height?: number
+  data?: unknown
+  encoding?: string
+  chunks?: unknown
+  objects?: TiledObject[]
+  layers?: TiledLayer[]
+}
+
+export type TiledTileset = {
+  firstgid: number
+  name?: string
+  source?: string
+  tiles?: { id: number; properties?: TiledProperty[] }[]
+}
+
+export type TiledMap = {
+  width: number
+  height: number
+  tilewidth: number
+  tileheight: number
+  infinite?: boolean
+  layers: TiledLayer[]
+  tilesets: TiledTileset[]
+  properties?: TiledProperty[]
+}
+
+export type TiledImportResult = {
+  definition: LevelDefinition
+  warnings: string[]
+}
+
+const TILE_NAMES: Record<string, number> = {
+  empty: T_EMPTY,
+  ground: T_GROUND,
+  block: T_BLOCK,
+  spike: T_SPIKE,
+  oneway: T_ONEWAY,
+  'slope-up': T_SLOPE_UP,
+  'slope-down': T_SLOPE_DOWN,
+  'slope-up-low': T_SLOPE_UP_LOW,
+  'slope-up-high': T_SLOPE_UP_HIGH,
+  'slope-down-high': T_SLOPE_DOWN_HIGH,
+  'slope-down-low': T_SLOPE_DOWN_LOW,
+}
+const TILE_CODES = new Set(Object.values(TILE_NAMES))
+// Tiled keeps flip/rotation flags in the top bits of every gid
+const GID_MASK = 0x1fffffff
+const DEFAULT_PORTAL_HEIGHT = 3
+const DEFAULT_PLATFORM_SPEED = 2
+const DEFAULT_PLATFORM_WIDTH = 3
+
+const OBJECT_PROPERTIES: Record<string, string[]> = {
+  orb: [],
+  enemy: ['enemyType'],
+  ...Object.fromEntries(ENEMY_TYPES.map((type) => [type.toLowerCase(), []])),
+  checkpoint: [],
+  powerup: ['ability'],
+  spiketrap: [],
+  firebar: [],
+  boss: ['arenaFrom', 'arenaTo'],
+  spawn: [],
+  portal: ['height'],
+  platform: ['speed', 'width'],
+}
+
+// Cheap check used to tell Tiled JSON apart from our own level files
+export function looksLikeTiledMap(data: unknown): boolean {
+  if (!data || typeof data !== 'object') return false
+  const map = data as Record<string, unknown>
+  return Array.isArray(map.layers) && typeof map.tilewidth === 'number'
+}
+
+export function importTiledMap(data: unknown, name = 'Untitled'): TiledImportResult {
+  if (!looksLikeTiledMap(data)) throw new LevelFileError(['map: not a Tiled map (expected "layers" and "tilewidth")'])
+  const map = data as TiledMap
+  const issues: string[] = []
+  const warnings: string[] = []
+
+  if (map.infinite) issues.push('map: infinite maps are not supported, set a fixed map size in Tiled')
+  if (!Number.isInteger(map.width) || !Number.isInteger(map.height) || map.width <= 0 || map.height <= 0) {
+    issues.push('map: width and height must be positive integers')
+  }
+  if (map.tilewidth !== map.tileheight) issues.push(`map: tiles must be square (got ${map.tilewidth}×${map.tileheight})`)
+  if (issues.length > 0) throw new LevelFileError(issues)
+
+  for (const prop of map.properties || []) {
+    if (prop.name === 'name' && typeof prop.value === 'string' && prop.value.trim()) name = prop.value.trim()
+    else warnings.push(`map: unknown property "${prop.name}" ignored`)
+  }
+
+  const tileSize = map.tilewidth
+  const codeForGid = buildGidTable(map.tilesets || [], warnings)
+  const tiles: number[][] = Array.from({ length: map.height }, () => new Array(map.width).fill(T_EMPTY))
+  const orbs: OrbSpawn[] = []
+  const enemies: EnemySpawn[] = []
+  const checkpoints: CheckpointSpec[] = []
+  const platforms: PlatformSpec[] = []
+  const pickups: PickupSpec[] = []
+  const bosses: BossSpec[] = []
+  const hazards: HazardSpec[] = []
+  const spawns: { x: number; y: number }[] = []
+  const portals: PortalSpec[] = []
+  const unmappedGids = new Set<number>()
+
+  for (const layer of flattenLayers(map.layers)) {
+    const layerName = layer.name || '(unnamed)'
+    if (layer.visible === false) continue
+    if (layer.type === 'tilelayer') {
+      if (layer.chunks) {
+        issues.push(`layer "${layerName}": chunked layers are not supported`)
+        continue
+      }
+      if (!Array.isArray(layer.data)) {
+        issues.push(`layer "${layerName}": tile data must be exported as CSV (not ${layer.encoding || 'unknown'})`)
+        continue
+      }
+      if (layer.data.length !== map.width * map.height) {
+        issues.push(`layer "${layerName}": expected ${map.width * map.height} tiles, found ${layer.data.length}`)
+        continue
+      }
+      for (let i = 0; i < layer.data.length; i += 1) {
+        const gid = Number(layer.data[i]) & GID_MASK
+        if (gid === 0) continue
+        let code = codeForGid.get(gid)
+        if (code === undefined) {
+          unmappedGids.add(gid)
+          code = T_GROUND
+        }
+        if (code !== T_EMPTY) tiles[Math.floor(i / map.width)][i % map.width] = code
+      }
+    } else if (layer.type === 'objectgroup') {
+      for (const obj of layer.objects || []) {
+        readObject(obj, layerName, map, { orbs, enemies, checkpoints, platforms, pickups, hazards, bosses, spawns, portals }, warnings)
+      }
+    } else if (layer.type !== 'imagelayer') {
+      warnings.push(`layer "${layerName}": unsupported layer type "${layer.type}" ignored`)
+    }
+  }
+
+  if (unmappedGids.size > 0) {
+    const list = [...unmappedGids].sort((a, b) => a - b).join(', ')
+    warnings.push(`tiles: gid ${list} ${unmappedGids.size === 1 ? 'has' : 'have'} no "tile" property, imported as ground`)
+  }
+  if (spawns.length === 0) issues.push('spawn: no "spawn" object found')
+  if (spawns.length > 1) warnings.push(`spawn: found ${spawns.length} spawn objects, using the first`)
+  if (portals.length === 0) issues.push('portal: no "portal" object found')
+  if (portals.length > 1) warnings.push(`portal: found ${portals.length} portal objects, using the first`)
+  if (bosses.length > 1) warnings.push(`boss: found ${bosses.length} boss objects, using the first`)
+  if (issues.length > 0) throw new LevelFileError(issues)
+
+  const level = { tiles, tileSize }
+  const portal = portals[0]
+  stampPortal(level, portal)
+  // Same surface-snapping pass the game applies to hand-placed orbs
+  snapOrbsToSurfaces(level, orbs, PLAYER_HEIGHT)
+  // Hand the result to the level-file validator so imports and files agree on what is valid
+  const definition = parseLevelFile({
+    format: LEVEL_FORMAT,
+    version: LEVEL_FORMAT_VERSION,
+    name,
+    tileSize,
+    tiles,
+    spawn: spawns[0],
+    portal,
+    orbs,
+    enemies,
+    checkpoints,
+    platforms,
+    pickups,
+    hazards,
+    boss: bosses.length > 0 ? bosses[0] : null,
+  })
+  return { definition, warnings }
+}
+
+// Group layers are flattened in draw order
+function flattenLayers(layers: TiledLayer[]): TiledLayer[] {
+  const out: TiledLayer[] = []
+  for (const layer of layers) {
+    if (layer.type === 'group') out.push(...flattenLayers(layer.layers || []))
+    else out.push(layer)
+  }
+  return out
+}
+
+function buildGidTable(tilesets: TiledTileset[], warnings: string[]): Map<number, number> {
+  const table = new Map<number, number>()
+  for (const tileset of tilesets) {
+    const setName = tileset.name || tileset.source || `firstgid ${tileset.firstgid}`
+    if (tileset.source) {
+      warnings.push(`tileset "${setName}": external tilesets are not read, embed the tileset in the map to keep tile properties`)
+      continue
+    }
+    const unknown = new Set<string>()
+    for (const tile of tileset.tiles || []) {
+      for (const prop of tile.properties || []) {
+        if (prop.name !== 'tile') {
+          unknown.add(prop.name)
+          continue
+        }
+        const code = tileCodeFromValue(prop.value)
+        if (code === null) {
+          warnings.push(`tileset "${setName}": tile ${tile.id} has unknown tile value ${JSON.stringify(prop.value)}, imported as ground`)
+          table.set(tileset.firstgid + tile.id, T_GROUND)
+        } else {
+          table.set(tileset.firstgid + tile.id, code)
+        }
+      }
+    }
+    for (const prop of unknown) warnings.push(`tileset "${setName}": unknown tile property "${prop}" ignored`)
+  }
+  return table
+}
+
+function tileCodeFromValue(value: unknown): number | null {
+  if (typeof value === 'number') return TILE_CODES.has(value) ? value : null
+  if (typeof value === 'string') {
+    const key = value.trim().toLowerCase()
+    return Object.prototype.hasOwnProperty.call(TILE_NAMES, key) ? TILE_NAMES[key] : null
+  }
+  return null
+}
+
+type ObjectTargets = {
+  orbs: OrbSpawn[]
+  enemies: EnemySpawn[]
+  checkpoints: CheckpointSpec[]
+  platforms: PlatformSpec[]
+  pickups: PickupSpec[]
+  hazards: HazardSpec[]
+  bosses: BossSpec[]
+  spawns: { x: number; y: number }[]
+  portals: PortalSpec[]
+}
+
+function readObject(obj: TiledObject, layerName: string, map: TiledMap, out: ObjectTargets, warnings: string[]): void {
+  const tileSize = map.tilewidth
+  const kind = (obj.type || obj.class || obj.name || '').trim().toLowerCase()
+  const label = `layer "${layerName}", object ${obj.id !== undefined ? `#${obj.id}` : JSON.stringify(obj.name || '')}`
+  if (!Object.prototype.hasOwnProperty.call(OBJECT_PROPERTIES, kind)) {
+    warnings.push(`${label}: unknown object type "${kind}" ignored`)
+    return
+  }
+  const props = new Map<string, unknown>()
+  for (const prop of obj.properties || []) {
+    if (OBJECT_PROPERTIES[kind].includes(prop.name)) props.set(prop.name, prop.value)
+    else warnings.push(`${label}: unknown property "${prop.name}" on ${kind} ignored`)
+  }
+
+  // Tile objects are anchored at their bottom-left corner, everything else at the top-left
+  const width = obj.width || 0
+  const height = obj.height || 0
+  const top = obj.gid ? obj.y - height : obj.y
+  const centerX = obj.x + width / 2
+  const bottom = top + height
+  const col = Math.floor(centerX / tileSize)
+  if (col < 0 || col >= map.width || top < 0 || bottom > map.height * tileSize) {
+    warnings.push(`${label}: ${kind} lies outside the map and was ignored`)
+    return
+  }
+
+  switch (kind) {
+    case 'orb':
+      out.orbs.push({ x: centerX, y: top + height / 2 })
+      return
+    case 'checkpoint': {
+      const row = Math.round(bottom / tileSize)
+      if (row >= map.height) warnings.push(`${label}: checkpoint has no tile row below it and was ignored`)
+      else if (row < 1) warnings.push(`${label}: checkpoint stands above the map's top row and was ignored`)
+      else out.checkpoints.push({ col, row })
+      return
+    }
+    case 'powerup': {
+      let ability: AbilityId = 'doubleJump'
+      const raw = props.get('ability')
+      if (raw !== undefined) {
+        if (isAbilityId(raw)) ability = raw
+        else warnings.push(`${label}: unknown ability ${JSON.stringify(raw)}, using ${ability}`)
+      }
+      const row = Math.round(bottom / tileSize)
+      if (row >= map.height) warnings.push(`${label}: powerup has no tile row below it and was ignored`)
+      else if (row < 1) warnings.push(`${label}: powerup stands above the map's top row and was ignored`)
+      else out.pickups.push({ col, row, ability })
+      return
+    }
+    case 'spiketrap':
+    case 'firebar':
+      out.hazards.push({ col, row: Math.floor((top + height / 2) / tileSize), kind: kind === 'spiketrap' ? 'spikeTrap' : 'fireBar' })
+      return
+    case 'boss': {
+      const row = Math.round(bottom / tileSize)
+      if (row >= map.height) {
+        warnings.push(`${label}: boss has no tile row below it and was ignored`)
+        return
+      }
+      if (row < 1) {
+        warnings.push(`${label}: boss stands above the map's top row and was ignored`)
+        return
+      }
+      const spec = bossSpecAt(col, row, map.width)
+      for (const edge of ['arenaFrom', 'arenaTo'] as const) {
+        const raw = props.get(edge)
+        if (raw === undefined) continue
+        if (Number.isInteger(raw) && (raw as number) >= 0 && (raw as number) < map.width) spec[edge] = raw as number
+        else warnings.push(`${label}: boss ${edge} must be a tile column inside the map, got ${JSON.stringify(raw)}`)
+      }
+      if (spec.arenaFrom > col || spec.arenaTo < col) {
+        warnings.push(`${label}: boss arena must include the boss column, using the default arena`)
+        out.bosses.push(bossSpecAt(col, row, map.width))
+      } else {
+        out.bosses.push(spec)
+      }
+      return
+    }
+    case 'spawn':
+      if (obj.point || (width === 0 && height === 0)) {
+        out.spawns.push({ x: obj.x - PLAYER_WIDTH / 2, y: obj.y - PLAYER_HEIGHT })
+      } else {
+        out.spawns.push({ x: obj.x, y: top })
+      }
+      return
+    case 'portal': {
+      const row = Math.floor((height > 0 ? bottom - 1 : obj.y) / tileSize)
+      let portalHeight = height > 0 ? Math.max(1, Math.round(height / tileSize)) : DEFAULT_PORTAL_HEIGHT
+      const raw = props.get('height')
+      if (raw !== undefined) {
+        if (Number.isInteger(raw) && (raw as number) > 0) portalHeight = raw as number
+        else warnings.push(`${label}: portal height must be a positive integer, got ${JSON.stringify(raw)}`)
+      }
+      out.portals.push({ col, row, height: Math.min(portalHeight, row + 1) })
+      return
+    }
+    case 'platform': {
+      let speed = DEFAULT_PLATFORM_SPEED
+      const raw = props.get('speed')
+      if (raw !== undefined) {
+        if (typeof raw === 'number' && raw > 0) speed = raw
+        else warnings.push(`${label}: platform speed must be a positive number, got ${JSON.stringify(raw)}`)
+      }
+      let tilesWide = width > 0 ? Math.max(1, Math.round(width / tileSize)) : DEFAULT_PLATFORM_WIDTH
+      const rawWidth = props.get('width')
+      if (rawWidth !== undefined) {
+        if (Number.isInteger(rawWidth) && (rawWidth as number) > 0) tilesWide = rawWidth as number
+        else warnings.push(`${label}: platform width must be a positive integer, got ${JSON.stringify(rawWidth)}`)
+      }
+      const startCol = Math.floor(obj.x / tileSize)
+      const startRow = Math.floor(top / tileSize)
+      // Polyline points are relative to the object; the first one is the start
+      const path = (obj.polyline || [])
+        .slice(1)
+        .map((pt) => ({ col: Math.round((obj.x + pt.x) / tileSize), row: Math.round((obj.y + pt.y) / tileSize) }))
+        .filter((w) => w.col >= 0 && w.col < map.width && w.row >= 0 && w.row < map.height)
+      if (!obj.polyline) warnings.push(`${label}: platform has no polyline path and will not move`)
+      out.platforms.push({ col: startCol, row: startRow, width: tilesWide, speed, path })
+      return
+    }
+    default: {
+      // "enemy" or an enemy type's shorthand
+      const shorthand = kind.toUpperCase()
+      let type: EnemyType = isEnemyType(shorthand) ? shorthand : 'TRICK'
+      const raw = props.get('enemyType')
+      if (raw !== undefined) {
+        const upper = String(raw).toUpperCase()
+        if (isEnemyType(upper)) type = upper
+        else warnings.push(`${label}: unknown enemyType ${JSON.stringify(raw)}, using ${type}`)
+      }
+      // Feet rest on the tile row just under the object's bottom edge
+      const row = Math.round(bottom / tileSize)
+      if (row >= map.height) warnings.push(`${label}: enemy has no tile row below it and was ignored`)
+      else if (row < 1) warnings.push(`${label}: enemy stands above the map's top row and was ignored`)
+      else out.enemies.push({ col, row, type })
+      return
+    }
+  }
+}
+
+// TMX (XML) maps are read into the same shape as Tiled JSON. Needs DOMParser,
+// so this only runs in the browser. Tile layers must use CSV encoding.
+export function parseTmx(xml: string): TiledMap {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml')
+  const root = doc.documentElement
+  if (!root || root.nodeName !== 'map' || doc.getElementsByTagName('parsererror').length > 0) {
+    throw new LevelFileError(['map: not a valid TMX document'])
+  }
+  const num = (el: Element, attr: string, fallback = 0) => {
+    const v = el.getAttribute(attr)
+    return v === null ? fallback : Number(v)
+  }
+  const readProperties = (el: Element): TiledProperty[] | undefined => {
+    const container = Array.from(el.children).find((c) => c.nodeName === 'properties')
+    if (!container) return undefined
+    return Array.from(container.children)
+      .filter((p) => p.nodeName === 'property')
+      .map((p) => {
+        const type = p.getAttribute('type') || 'string'
+        const raw = p.getAttribute('value') ?? p.textContent ?? ''
+        const value = type === 'int' || type === 'float' ? Number(raw) : type === 'bool' ? raw === 'true' : raw
+        return { name: p.getAttribute('name') || '', type, value }
+      })
+  }
+  const readPolyline = (el: Element): { x: number; y: number }[] | undefined => {
+    const line = Array.from(el.children).find((c) => c.nodeName === 'polyline')
+    if (!line) return undefined
+    return (line.getAttribute('points') || '')
+      .trim()
+      .split(/\s+/)
+      .map((pair) => {
+        const [x, y] = pair.split(',').map(Number)
+        return { x, y }
+      })
+  }
+  const readLayers = (parent: Element): TiledLayer[] => {
+    const layers: TiledLayer[] = []
+    for (const el of Array.from(parent.children)) {
+      const base = { name: el.getAttribute('name') || undefined, visible: el.getAttribute('visible') !== '0' }
+      if (el.nodeName === 'layer') {
+        const dataEl = Array.from(el.children).find((c) => c.nodeName === 'data')
+        const encoding = dataEl ? dataEl.getAttribute('encoding') || 'xml' : 'none'
+        const chunked = !!dataEl && Array.from(dataEl.children).some((c) => c.nodeName === 'chunk')
+        let data: number[] | undefined
+        if (dataEl && encoding === 'csv' && !chunked) {
+          data = (dataEl.textContent || '').split(',').map((s) => Number(s.trim()))
+        }
+        layers.push({ ...base, type: 'tilelayer', width: num(el, 'width'), height: num(el, 'height'), data, encoding, chunks: chunked || undefined })
+      } else if (el.nodeName === 'objectgroup') {
+        const objects: TiledObject[] = Array.from(el.children)
+          .filter((o) => o.nodeName === 'object')
+          .map((o) => ({
+            id: num(o, 'id'),
+            name: o.getAttribute('name') || undefined,
+            type: o.getAttribute('type') || o.getAttribute('class') || undefined,
+            x: num(o, 'x'),
+            y: num(o, 'y'),
+            width: num(o, 'width'),
+            height: num(o, 'height'),
+            point: Array.from(o.children).some((c) => c.nodeName === 'point'),
+            polyline: readPolyline(o),
+            gid: o.getAttribute('gid') ? num(o, 'gid') : undefined,
+            properties: readProperties(o),
+          }))
+        layers.push({ ...base, type: 'objectgroup', objects })
+      } else if (el.nodeName === 'group') {
+        layers.push({ ...base, type: 'group', layers: readLayers(el) })
+      } else if (el.nodeName === 'imagelayer') {
+        layers.push({ ...base, type: 'imagelayer' })
+      }
+    }
+    return layers
+  }
+  const tilesets: TiledTileset[] = Array.from(root.children)
+    .filter((el) => el.nodeName === 'tileset')
+    .map((el) => ({
+      firstgid: num(el, 'firstgid', 1),
+      name: el.getAttribute('name') || undefined,
+      source: el.getAttribute('source') || undefined,
+      tiles: Array.from(el.children)
+        .filter((t) => t.nodeName === 'tile')
+        .map((t) => ({ id: num(t, 'id'), properties: readProperties(t) })),
+    }))
+  return {
+    width: num(root, 'width'),
+    height: num(root, 'height'),
+    tilewidth: num(root, 'tilewidth'),
+    tileheight: num(root, 'tileheight'),
+    infinite: root.getAttribute('infinite') === '1',
+    layers: readLayers(root),
+    tilesets,
+  }
+}